@@ -1,94 +1,143 @@
 // Background script for screenshot extension
 import type { PlasmoMessaging } from "@plasmohq/messaging"
 
-// Keyboard shortcut support removed by request; all capture flows initiated via popup UI.
+import { captureFullPageCdp } from "~lib/cdp-capture"
+import { withDeviceEmulation } from "~lib/device-emulation"
+import { downloadPath, startDownload, waitForDownload } from "~lib/downloads"
+import { addCapture, getCapture, setHistoryQuota } from "~lib/history"
+import { dataUrlToBlob } from "~lib/image-format"
+import {
+  createRequestId,
+  isCaptureAction,
+  type CaptureCommand,
+  type CaptureTiming,
+  type ExtensionMessage,
+  type MessageOf
+} from "~lib/messages"
+import { isMissingReceiverError, restrictedPageReason } from "~lib/page-access"
+import { devicePreset, type ResponsiveFrame } from "~lib/responsive"
+import { getSettings, onSettingsChanged, type Settings } from "~lib/settings"
+import { FULL_PAGE_SINGLE_SHOT, REPEAT_LAST_CAPTURE } from "~lib/shortcuts"
+import { BlobPort, OFFSCREEN_PORT, TRANSFER_PORT } from "~lib/transfer"
 
 // Listen for messages from content script and popup
-chrome.runtime.onMessage.addListener(async (message, sender, sendResponse) => {
-  if (message.action === "capture-full-page") {
-    // Handle message from popup - trigger screenshot capture
+chrome.runtime.onMessage.addListener(async (message: ExtensionMessage, sender, sendResponse) => {
+  if (isCaptureAction(message.action)) {
+    // Popup commands are run in the active tab, exactly like keyboard shortcuts
+    await runCaptureCommand(message as CaptureCommand)
+  } else if (message.action === "page-image-error") {
+    pendingPageImages.get(message.requestId)?.reject(new Error(message.error))
+  } else if (message.action === "cancel-request") {
+    cancelScheduledCapture(message.requestId)
+    cdpJobs.get(message.requestId)?.abort()
+  } else if (message.action === "frame-command" && sender.tab?.id) {
+    const target = message.frameId === undefined ? {} : { frameId: message.frameId }
+    chrome.tabs.sendMessage(sender.tab.id, message, target).catch(() => {})
+  } else if (message.action === "frame-report" && sender.tab?.id && sender.frameId) {
+    // Reports only ever go to the top frame, tagged with the frame they came from
+    const relay: ExtensionMessage = { ...message, frameId: sender.frameId }
+    chrome.tabs.sendMessage(sender.tab.id, relay, { frameId: 0 }).catch(() => {})
+  } else if (message.action === "history-copy") {
+    let result: ExtensionMessage = { action: "history-copy-result", id: message.id, success: false }
     try {
-      const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true })
-
-      if (!activeTab?.id) {
-        console.error("No active tab found")
-        return
-      }
-
-      // Try to send message to content script
-      try {
-        await chrome.tabs.sendMessage(activeTab.id, { action: "capture-full-page" })
-      } catch (contentScriptError) {
-        console.log("Content script not loaded, user needs to refresh the page")
-        console.error("Content script error:", contentScriptError)
-        // The content script needs to be loaded by refreshing the page
-        // We can't inject it dynamically because the file path is different in Plasmo
+      const record = await getCapture(message.id)
+      if (!record) {
+        result = { ...result, error: "Capture no longer exists" }
+      } else {
+        const success = await copyToClipboardInBackground(record.blob)
+        result = { ...result, success, error: success ? undefined : "Clipboard access failed" }
       }
-
     } catch (error) {
-      console.error("Error capturing screenshot:", error)
+      console.error("Error copying capture from history:", error)
+      result = { ...result, error: error.message }
     }
-  } else if (message.action === "capture-visible-area" && !sender.tab) {
-    // Handle message from popup - trigger visible area capture
-    try {
-      const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true })
-
-      if (!activeTab?.id) {
-        console.error("No active tab found")
-        return
-      }
-
-      console.log("Sending visible area capture message to tab:", activeTab.id)
+    chrome.runtime.sendMessage(result).catch(() => {})
+  }
+})
 
-      // Send message to content script to start visible area capture
-      chrome.tabs.sendMessage(activeTab.id, { action: "capture-visible-area" })
+// ---- images over the transfer port (lib/transfer.ts) ----
+// The content script of each tab keeps one port open; results with images are sent back on it
+const transferPorts = new Map<number, BlobPort>()
+// Running single-shot captures by request id, so a cancel-request can stop them
+const cdpJobs = new Map<string, AbortController>()
+
+chrome.runtime.onConnect.addListener((port) => {
+  const tabId = port.sender?.tab?.id
+  if (port.name !== TRANSFER_PORT || !tabId) return
+  const channel = new BlobPort(port, (message, images) => handleImageMessage(message, images, port.sender!, channel))
+  transferPorts.set(tabId, channel)
+  port.onDisconnect.addListener(() => {
+    if (transferPorts.get(tabId) === channel) transferPorts.delete(tabId)
+  })
+})
 
-    } catch (error) {
-      console.error("Error capturing screenshot:", error)
-    }
-  } else if (message.action === "capture-visible-area" && sender.tab) {
+async function handleImageMessage(message: ExtensionMessage, images: Blob[], sender: chrome.runtime.MessageSender, channel: BlobPort) {
+  if (message.action === "page-image") {
+    pendingPageImages.get(message.requestId)?.resolve(images[0])
+  } else if (message.action === "capture-tile" && sender.tab) {
     try {
-      // Capture the visible area of the tab (from content script)
-      const dataUrl = await chrome.tabs.captureVisibleTab(
-        sender.tab?.windowId,
-        { format: "png", quality: 100 }
-      )
-      
-      // Send the captured image back to content script
-      if (sender.tab?.id) {
-        chrome.tabs.sendMessage(sender.tab.id, {
-          action: "screenshot-captured",
-          dataUrl: dataUrl,
-          scrollPosition: message.scrollPosition
-        })
+      // Capture the visible area of the tab (from content script), paced by the scheduler
+      const { image, timing } = await scheduleCapture(sender.tab.windowId, message.requestId)
+
+      // Send the captured image back on the port, tagged with the request it answers
+      const reply: ExtensionMessage = {
+        action: "screenshot-captured",
+        requestId: message.requestId,
+        scrollPosition: message.scrollPosition,
+        timing
       }
+      await channel.send(reply, [image])
     } catch (error) {
       console.error("Error capturing visible area:", error)
-      if (sender.tab?.id) {
-        chrome.tabs.sendMessage(sender.tab.id, {
-          action: "screenshot-error",
-          error: error.message
-        })
+      const reply: ExtensionMessage = {
+        action: "screenshot-error",
+        requestId: message.requestId,
+        error: error.message
       }
+      channel.send(reply).catch(() => {})
+    }
+  } else if (message.action === "capture-full-page-cdp" && sender.tab?.id) {
+    const job = new AbortController()
+    cdpJobs.set(message.requestId, job)
+    try {
+      const { output } = await getSettings()
+      const { parts, ...result } = await captureFullPageCdp(sender.tab.id, output, { maxHeight: message.maxHeight, signal: job.signal })
+      await channel.send(
+        { action: "cdp-capture-result", requestId: message.requestId, ...result, parts: parts.map(({ y, height }) => ({ y, height })) },
+        parts.map((part) => part.blob)
+      )
+    } catch (error) {
+      console.error("DevTools Protocol capture failed:", error)
+      const reply: ExtensionMessage = { action: "cdp-capture-error", requestId: message.requestId, error: error.message }
+      channel.send(reply).catch(() => {})
+    } finally {
+      cdpJobs.delete(message.requestId)
+    }
+  } else if (message.action === "save-capture") {
+    try {
+      const saved = await addCapture({ id: message.id, blob: images[0], url: message.url, title: message.title, mode: message.mode })
+      console.log(`Saved ${saved.mode} capture ${saved.id} to history (${saved.width}x${saved.height})`)
+    } catch (error) {
+      console.error("Error saving capture to history:", error)
     }
   } else if (message.action === "copy-to-clipboard") {
     try {
       console.log("Background script handling clipboard copy request")
 
       // Handle clipboard copy in background script where we have proper permissions
-      const success = await copyToClipboardInBackground(message.dataUrl)
+      const success = await copyToClipboardInBackground(images[0])
 
       if (sender.tab?.id) {
         if (success) {
           chrome.tabs.sendMessage(sender.tab.id, {
             action: "clipboard-success",
             message: "Screenshot copied to clipboard!"
-          })
+          }, { frameId: sender.frameId ?? 0 })
         } else {
           chrome.tabs.sendMessage(sender.tab.id, {
             action: "clipboard-error",
             error: "Clipboard access failed. Please click the extension icon and use 'Quick Capture' button for reliable clipboard access."
-          })
+          }, { frameId: sender.frameId ?? 0 })
         }
       }
     } catch (error) {
@@ -97,138 +146,469 @@ chrome.runtime.onMessage.addListener(async (message, sender, sendResponse) => {
         chrome.tabs.sendMessage(sender.tab.id, {
           action: "clipboard-error",
           error: error.message
-        })
+        }, { frameId: sender.frameId ?? 0 })
       }
     }
-  } else if (message.action === 'capture-region') {
+  } else if (message.action === "download-capture" && sender.tab?.id) {
+    let result: ExtensionMessage = { action: "download-result", success: false }
     try {
-      const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true })
-      if (!activeTab?.id) return
-      chrome.tabs.sendMessage(activeTab.id, { action: 'capture-region' })
-    } catch (e) {
-      console.error('Error forwarding region capture message:', e)
+      const settings = await getSettings()
+      const filename = downloadPath(settings.download, {
+        prefix: settings.filenamePrefixes[message.mode],
+        mode: message.mode,
+        url: sender.tab.url || "",
+        title: sender.tab.title || "",
+        width: message.width,
+        height: message.height,
+        capturedAt: new Date(message.capturedAt)
+      }, message.extension)
+      await downloadBlob(images[0], filename, settings.download.saveAs)
+      result = { ...result, success: true, filename }
+    } catch (error) {
+      console.error("Error downloading capture:", error)
+      result = { ...result, error: error.message }
     }
+    chrome.tabs.sendMessage(sender.tab.id, result, { frameId: sender.frameId ?? 0 }).catch(() => {})
   }
-})
+}
 
-// Function to handle clipboard operations in background script
-async function copyToClipboardInBackground(dataUrl: string): Promise<boolean> {
-  try {
-    console.log("Attempting clipboard copy in background script")
-    console.log("Background context check:", {
-      hasNavigator: typeof navigator !== 'undefined',
-      hasClipboard: typeof navigator !== 'undefined' && !!navigator.clipboard,
-      hasClipboardWrite: typeof navigator !== 'undefined' && !!navigator.clipboard?.write,
-      hasOffscreen: !!chrome.offscreen
-    })
+// ---- settings ----
+// History lives in this context's IndexedDB, so the quota setting is applied (and enforced) here
+let appliedHistoryQuotaMB: number | null = null
+
+function applySettings(settings: Settings) {
+  if (settings.historyQuotaMB === appliedHistoryQuotaMB) return
+  appliedHistoryQuotaMB = settings.historyQuotaMB
+  setHistoryQuota(settings.historyQuotaMB * 1024 * 1024).catch((e) => console.error("Could not apply history quota:", e))
+}
 
-    // Convert data URL to blob
-    const response = await fetch(dataUrl)
-    const blob = await response.blob()
+getSettings().then(applySettings).catch((e) => console.error("Could not load settings:", e))
+onSettingsChanged(applySettings)
 
-    console.log(`Created blob: ${blob.size} bytes, type: ${blob.type}`)
+// ---- capture commands (popup and keyboard shortcuts) ----
+// The last command is kept for "repeat last capture"
+const LAST_CAPTURE_KEY = "lastCaptureCommand"
 
-    // In Manifest V3 service workers, navigator.clipboard is usually not available
-    // Try offscreen document approach
-    console.log("Using offscreen document for clipboard access...")
-    return await createOffscreenForClipboard(dataUrl)
+async function getLastCaptureCommand(): Promise<CaptureCommand | null> {
+  const stored = await chrome.storage.local.get(LAST_CAPTURE_KEY)
+  return stored[LAST_CAPTURE_KEY] || null
+}
+
+// The popup stays open until one of these arrives, so errors can be shown there
+function reportCaptureStatus(status: ExtensionMessage) {
+  chrome.runtime.sendMessage(status).catch(() => {})
+}
 
+async function runCaptureCommand(command: CaptureCommand) {
+  try {
+    const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    if (!activeTab?.id) {
+      console.error("No active tab found")
+      reportCaptureStatus({ action: "capture-failed", error: "No active tab found" })
+      return
+    }
+    const restricted = restrictedPageReason(activeTab.url)
+    if (restricted) {
+      reportCaptureStatus({ action: "capture-failed", error: restricted })
+      return
+    }
+    // A right-clicked element only means something for that click; repeating opens the picker
+    const repeatable: CaptureCommand = command.action === "capture-element" ? { action: "capture-element" } : command
+    await chrome.storage.local.set({ [LAST_CAPTURE_KEY]: repeatable })
+    if (command.action === "capture-responsive") {
+      await captureResponsive(activeTab.id)
+      return
+    }
+    await sendToContentScript(activeTab.id, command)
+    reportCaptureStatus({ action: "capture-dispatched" })
   } catch (error) {
-    console.error("Background clipboard copy failed:", error)
-    console.error("Error details:", {
-      name: error.name,
-      message: error.message,
-      code: error.code,
-      constructor: error.constructor.name
-    })
-    return false
+    console.error(`Error running ${command.action}:`, error)
+    reportCaptureStatus({ action: "capture-failed", error: error.message })
   }
 }
 
-// Create offscreen document for clipboard access
-async function createOffscreenForClipboard(dataUrl: string): Promise<boolean> {
+// Tabs opened before the extension was installed or updated have no content script yet:
+// inject the built one (its hashed file names are in the generated manifest) and retry once
+// Resolves with the content script's response, if it sends one
+// Tab messages go to frame 0 only: the capture handler runs in the top frame, and the frame
+// agents in (possibly third-party) iframes must never receive captures or results
+async function sendToContentScript(tabId: number, message: ExtensionMessage): Promise<unknown> {
   try {
-    console.log("Creating offscreen document for clipboard access")
-
-    // Check if offscreen API is available
-    if (!chrome.offscreen) {
-      console.error("Offscreen API not available - this might be an older Chrome version")
-      return false
+    return await chrome.tabs.sendMessage(tabId, message, { frameId: 0 })
+  } catch (error) {
+    if (!isMissingReceiverError(error)) throw error
+    console.log(`No content script in tab ${tabId}, injecting it`)
+  }
+  // The frame agent goes into every frame, the capture handler only into the top one
+  for (const script of chrome.runtime.getManifest().content_scripts || []) {
+    if (!script.js?.length) continue
+    try {
+      await chrome.scripting.executeScript({ target: { tabId, allFrames: !!script.all_frames }, files: script.js })
+    } catch (error) {
+      // Frames the extension can't access only lose frame-aware capture
+      if (script.all_frames) {
+        console.warn("Frame agent injection failed:", error)
+        continue
+      }
+      console.error("Content script injection failed:", error)
+      throw new Error("This page can't be captured: the extension isn't allowed to access it. Reloading the page may help.")
     }
+  }
+  return chrome.tabs.sendMessage(tabId, message, { frameId: 0 })
+}
 
-    // Check if offscreen document already exists
-    let existingContexts = []
-    try {
-      existingContexts = await chrome.runtime.getContexts({
-        contextTypes: ['OFFSCREEN_DOCUMENT']
-      })
-    } catch (e) {
-      console.log("Could not check existing contexts:", e.message)
+chrome.commands.onCommand.addListener(async (name) => {
+  if (name === REPEAT_LAST_CAPTURE) {
+    const last = await getLastCaptureCommand()
+    if (last) await runCaptureCommand(last)
+    else console.log("No capture to repeat yet")
+  } else {
+    const command = await captureCommandFor(name)
+    if (command) await runCaptureCommand(command)
+  }
+})
+
+// Shortcut and context menu ids as commands. The full-page engine is written into the command,
+// so "repeat last capture" uses the same one even after the setting changes.
+async function captureCommandFor(id: string): Promise<CaptureCommand | null> {
+  if (id === FULL_PAGE_SINGLE_SHOT) return { action: "capture-full-page", engine: "cdp" }
+  if (id === "capture-full-page") return { action: "capture-full-page", engine: (await getSettings()).fullPageEngine }
+  return isCaptureAction(id) ? ({ action: id } as CaptureCommand) : null
+}
+
+// ---- responsive capture ----
+// Each width is captured by the content script's full-page pipeline while the debugger
+// emulates the viewport; the frames are then sent back to the page to be shown
+const RESPONSIVE_SETTLE_MS = 800 // media queries, relayout and images swapped by srcset
+const PAGE_IMAGE_TIMEOUT_MS = 5 * 60 * 1000
+
+const pendingPageImages = new Map<string, { resolve: (image: Blob) => void; reject: (error: Error) => void }>()
+
+function requestPageImage(tabId: number): Promise<Blob> {
+  const requestId = createRequestId()
+  return new Promise<Blob>((resolve, reject) => {
+    const timer = setTimeout(() => settle(() => reject(new Error("Full page capture timed out"))), PAGE_IMAGE_TIMEOUT_MS)
+    const settle = (fn: () => void) => {
+      clearTimeout(timer)
+      pendingPageImages.delete(requestId)
+      fn()
     }
+    pendingPageImages.set(requestId, {
+      resolve: (image) => settle(() => resolve(image)),
+      reject: (error) => settle(() => reject(error))
+    })
+    sendToContentScript(tabId, { action: "capture-page-image", requestId }).catch((error) =>
+      pendingPageImages.get(requestId)?.reject(error)
+    )
+  })
+}
 
-    // Close existing offscreen document if any
-    if (existingContexts.length > 0) {
-      console.log("Closing existing offscreen document")
+async function captureResponsive(tabId: number) {
+  const { responsive } = await getSettings()
+  const frames: Omit<ResponsiveFrame, "image">[] = []
+  const images: Blob[] = []
+  let dispatched = false
+  try {
+    await withDeviceEmulation(tabId, async (emulate) => {
+      // Attaching is what usually fails (DevTools already open on the tab), so the popup waits for it
+      reportCaptureStatus({ action: "capture-dispatched" })
+      dispatched = true
+      for (const width of responsive.widths) {
+        const preset = devicePreset(width)
+        await emulate(preset)
+        await delay(RESPONSIVE_SETTLE_MS)
+        images.push(await requestPageImage(tabId))
+        frames.push({ label: preset.label, width })
+      }
+    })
+  } catch (error) {
+    if (!dispatched) throw error
+    console.error("Responsive capture failed:", error)
+    sendResponsiveResult(tabId, frames, images, error.message)
+    return
+  }
+  sendResponsiveResult(tabId, frames, images)
+}
+
+// Frames go back over the port they arrived on; without one (nothing captured yet) only the error can
+function sendResponsiveResult(tabId: number, frames: Omit<ResponsiveFrame, "image">[], images: Blob[], error?: string) {
+  const channel = transferPorts.get(tabId)
+  if (channel) {
+    channel.send({ action: "responsive-result", frames, error }, images).catch((e) => console.error("Could not send responsive frames:", e))
+  } else {
+    const message: ExtensionMessage = { action: "responsive-result", frames: [], error: error || "Lost the connection to the page" }
+    chrome.tabs.sendMessage(tabId, message, { frameId: 0 }).catch(() => {})
+  }
+}
+
+// ---- context menu ----
+const COPY_IMAGE_MENU_ID = "copy-image"
+const PAGE_CONTEXTS: chrome.contextMenus.ContextType[] = ["page", "selection", "link", "editable", "image", "video", "audio"]
+
+chrome.runtime.onInstalled.addListener(() => {
+  chrome.contextMenus.removeAll(() => {
+    chrome.contextMenus.create({ id: "capture-visible-area", title: "Capture visible area", contexts: PAGE_CONTEXTS })
+    chrome.contextMenus.create({ id: "capture-full-page", title: "Capture full page", contexts: PAGE_CONTEXTS })
+    chrome.contextMenus.create({ id: FULL_PAGE_SINGLE_SHOT, title: "Capture full page (single shot)", contexts: PAGE_CONTEXTS })
+    chrome.contextMenus.create({ id: "capture-region", title: "Capture region", contexts: PAGE_CONTEXTS })
+    chrome.contextMenus.create({ id: "capture-element", title: "Capture this element", contexts: PAGE_CONTEXTS })
+    chrome.contextMenus.create({ id: "capture-responsive", title: "Capture at device widths", contexts: PAGE_CONTEXTS })
+    chrome.contextMenus.create({ id: "context-separator", type: "separator", contexts: ["image"] })
+    chrome.contextMenus.create({ id: COPY_IMAGE_MENU_ID, title: "Copy this image", contexts: ["image"] })
+  })
+})
+
+chrome.contextMenus.onClicked.addListener(async (info, tab) => {
+  const id = String(info.menuItemId)
+  if (id === COPY_IMAGE_MENU_ID && info.srcUrl) {
+    // The page reads the image first: it has the cookies and can load http images
+    let copied = false
+    if (tab?.id) {
       try {
-        await chrome.offscreen.closeDocument()
-      } catch (e) {
-        console.log("Could not close existing offscreen document:", e.message)
+        copied = (await sendToContentScript(tab.id, { action: "copy-page-image", srcUrl: info.srcUrl })) === true
+      } catch (error) {
+        console.warn("The page could not read the image, fetching it here:", error)
       }
     }
+    if (!copied) await copyImageFromUrl(info.srcUrl, tab?.id)
+  } else if (id === "capture-element") {
+    // The content script remembers what was right-clicked
+    await runCaptureCommand({ action: "capture-element", contextTarget: true })
+  } else {
+    const command = await captureCommandFor(id)
+    if (command) await runCaptureCommand(command)
+  }
+})
+
+// Fallback without the page: no cookies, and only the hosts the extension may access
+async function copyImageFromUrl(srcUrl: string, tabId?: number) {
+  let success = false
+  try {
+    const response = await fetch(srcUrl)
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    success = await copyToClipboardInBackground(await response.blob())
+  } catch (error) {
+    console.error("Error copying image from context menu:", error)
+  }
+  if (!tabId) return
+  const reply: ExtensionMessage = success
+    ? { action: "clipboard-success", message: "Image copied to clipboard!" }
+    : { action: "clipboard-error", error: "Could not copy this image" }
+  chrome.tabs.sendMessage(tabId, reply, { frameId: 0 }).catch(() => {})
+}
 
-    console.log("Creating new offscreen document...")
+// ---- captureVisibleTab scheduling ----
+// Chrome allows about 2 captureVisibleTab calls per second per extension
+// (MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND). Every capture from every tab goes
+// through one token bucket so tiles are taken as fast as the quota allows, and
+// a call that still trips the quota is retried with backoff instead of failing.
+const CAPTURE_BUCKET_CAPACITY = 1
+const CAPTURE_REFILL_MS = 550
+const CAPTURE_MAX_ATTEMPTS = 5
+const CAPTURE_BACKOFF_MS = 600
+
+interface CaptureJob {
+  requestId: string
+  windowId: number
+  enqueuedAt: number
+  resolve: (result: { image: Blob; timing: CaptureTiming }) => void
+  reject: (error: Error) => void
+}
 
-    // Create offscreen document
-    await chrome.offscreen.createDocument({
-      url: 'offscreen.html',
-      reasons: ['CLIPBOARD'],
-      justification: 'Copy screenshot to clipboard'
-    })
+const captureQueue: CaptureJob[] = []
+let captureTokens = CAPTURE_BUCKET_CAPACITY
+let lastRefillAt = Date.now()
+let captureQueueRunning = false
 
-    console.log("Offscreen document created, sending clipboard message...")
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
 
-    // Send message to offscreen document with timeout
-    const response = await Promise.race([
-      chrome.runtime.sendMessage({
-        action: 'copy-to-clipboard-offscreen',
-        dataUrl: dataUrl
-      }),
-      new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('Offscreen clipboard timeout')), 10000)
-      )
-    ])
+function refillCaptureTokens() {
+  const refills = Math.floor((Date.now() - lastRefillAt) / CAPTURE_REFILL_MS)
+  if (refills > 0) {
+    captureTokens = Math.min(CAPTURE_BUCKET_CAPACITY, captureTokens + refills)
+    lastRefillAt += refills * CAPTURE_REFILL_MS
+  }
+}
 
-    console.log("Offscreen response:", response)
+function scheduleCapture(windowId: number, requestId: string): Promise<{ image: Blob; timing: CaptureTiming }> {
+  return new Promise((resolve, reject) => {
+    captureQueue.push({ requestId, windowId, enqueuedAt: Date.now(), resolve, reject })
+    runCaptureQueue()
+  })
+}
+
+// Drops a capture that is still waiting for a token; one already in flight just finishes unanswered
+function cancelScheduledCapture(requestId: string) {
+  const index = captureQueue.findIndex(job => job.requestId === requestId)
+  if (index === -1) return
+  const [job] = captureQueue.splice(index, 1)
+  job.reject(new Error("Capture cancelled"))
+}
+
+async function runCaptureQueue() {
+  if (captureQueueRunning) return
+  captureQueueRunning = true
+  try {
+    while (captureQueue.length) {
+      refillCaptureTokens()
+      if (captureTokens < 1) {
+        await delay(Math.max(0, CAPTURE_REFILL_MS - (Date.now() - lastRefillAt)))
+        continue
+      }
+      captureTokens--
+      await runCaptureJob(captureQueue.shift()!)
+    }
+  } finally {
+    captureQueueRunning = false
+  }
+}
 
-    // Close offscreen document
+async function runCaptureJob(job: CaptureJob) {
+  const startedAt = Date.now()
+  for (let attempt = 1; ; attempt++) {
     try {
-      await chrome.offscreen.closeDocument()
-      console.log("Offscreen document closed")
-    } catch (e) {
-      console.log("Could not close offscreen document:", e.message)
+      const dataUrl = await chrome.tabs.captureVisibleTab(job.windowId, { format: "png", quality: 100 })
+      job.resolve({
+        // captureVisibleTab only returns a data URL; the page gets the decoded bytes
+        image: dataUrlToBlob(dataUrl),
+        timing: { queuedMs: startedAt - job.enqueuedAt, captureMs: Date.now() - startedAt, attempts: attempt }
+      })
+      return
+    } catch (error) {
+      const rateLimited = String(error?.message || "").includes("MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND")
+      if (!rateLimited || attempt >= CAPTURE_MAX_ATTEMPTS) {
+        job.reject(error)
+        return
+      }
+      const backoff = CAPTURE_BACKOFF_MS * 2 ** (attempt - 1)
+      console.log(`captureVisibleTab rate limited, retrying in ${backoff}ms (attempt ${attempt})`)
+      await delay(backoff)
+      // The quota window restarts from this retry
+      captureTokens = 0
+      lastRefillAt = Date.now()
     }
+  }
+}
 
-    return response?.success || false
+// Function to handle clipboard operations in background script
+async function copyToClipboardInBackground(blob: Blob): Promise<boolean> {
+  try {
+    console.log(`Copying blob: ${blob.size} bytes, type: ${blob.type}`)
 
+    // In Manifest V3 service workers, navigator.clipboard is not available: the offscreen document writes it
+    await withOffscreenDocument((channel) => requestOffscreen(channel, "offscreen-copy", blob))
+    return true
   } catch (error) {
-    console.error("Offscreen clipboard copy failed:", error)
-    console.error("Offscreen error details:", {
-      name: error.name,
-      message: error.message,
-      stack: error.stack
-    })
+    console.error("Background clipboard copy failed:", error)
+    return false
+  }
+}
+
+// The service worker has no URL.createObjectURL: the offscreen document makes the blob: URL,
+// and stays open until Chrome has read the file from it
+async function downloadBlob(blob: Blob, filename: string, saveAs: boolean) {
+  await withOffscreenDocument(async (channel) => {
+    const url = await requestOffscreen(channel, "offscreen-object-url", blob)
+    if (!url) throw new Error("The offscreen document returned no URL")
+    const id = await startDownload(url, filename, saveAs)
+    await waitForDownload(id, DOWNLOAD_TIMEOUT_MS)
+  })
+}
 
-    // Try to clean up offscreen document
+// ---- offscreen document (tabs/offscreen.tsx) ----
+// Opened per operation and closed after it. Images reach it over its own transfer port,
+// so a capture never has to fit into one message.
+const OFFSCREEN_DOCUMENT_URL = "tabs/offscreen.html"
+const OFFSCREEN_TIMEOUT_MS = 10000
+const DOWNLOAD_TIMEOUT_MS = 60000
+
+let offscreenQueue: Promise<unknown> = Promise.resolve()
+let offscreenConnected: ((channel: BlobPort) => void) | null = null
+const offscreenReplies = new Map<string, (reply: MessageOf<"offscreen-result">) => void>()
+
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name !== OFFSCREEN_PORT || port.sender?.tab) return
+  const channel = new BlobPort(port, (message) => {
+    if (message.action === "offscreen-result") offscreenReplies.get(message.requestId)?.(message)
+  })
+  offscreenConnected?.(channel)
+})
+
+// Only one offscreen document can exist, so operations take turns
+function withOffscreenDocument<T>(fn: (channel: BlobPort) => Promise<T>): Promise<T> {
+  const run = offscreenQueue.then(async () => {
+    const channel = await openOffscreenDocument()
     try {
-      await chrome.offscreen.closeDocument()
-    } catch (e) {
-      // Ignore cleanup errors
+      return await fn(channel)
+    } finally {
+      await closeOffscreenDocument()
     }
+  })
+  offscreenQueue = run.catch(() => {})
+  return run
+}
 
-    return false
+async function openOffscreenDocument(): Promise<BlobPort> {
+  if (!chrome.offscreen) throw new Error("Offscreen documents are not available in this version of Chrome")
+  // One left over from an interrupted operation has lost its port
+  await closeOffscreenDocument()
+  let timer: ReturnType<typeof setTimeout>
+  const connected = new Promise<BlobPort>((resolve, reject) => {
+    offscreenConnected = resolve
+    timer = setTimeout(() => reject(new Error("The offscreen document did not start")), OFFSCREEN_TIMEOUT_MS)
+  })
+  try {
+    await chrome.offscreen.createDocument({
+      url: OFFSCREEN_DOCUMENT_URL,
+      reasons: [chrome.offscreen.Reason.CLIPBOARD, chrome.offscreen.Reason.BLOBS],
+      justification: "Copy screenshots to the clipboard and save them as downloads"
+    })
+    return await connected
+  } finally {
+    clearTimeout(timer!)
+    offscreenConnected = null
+  }
+}
+
+async function closeOffscreenDocument() {
+  try {
+    await chrome.offscreen.closeDocument()
+  } catch (_) {
+    // None open
   }
 }
 
+// Sends `image` to the offscreen document and resolves with its answer's URL, if any
+function requestOffscreen(channel: BlobPort, action: "offscreen-copy" | "offscreen-object-url", image: Blob): Promise<string | undefined> {
+  const requestId = createRequestId()
+  return new Promise((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const settle = () => {
+      clearTimeout(timer)
+      offscreenReplies.delete(requestId)
+    }
+    offscreenReplies.set(requestId, (reply) => {
+      settle()
+      if (reply.error) reject(new Error(reply.error))
+      else resolve(reply.url)
+    })
+    const message: ExtensionMessage = { action, requestId }
+    channel.send(message, [image]).then(
+      // Timed from the last slice on, so large captures aren't cut off while still being sent
+      () => {
+        timer = setTimeout(() => {
+          settle()
+          reject(new Error("The offscreen document did not answer"))
+        }, OFFSCREEN_TIMEOUT_MS)
+      },
+      (error) => {
+        settle()
+        reject(error)
+      }
+    )
+  })
+}
+
 
 
 export {}
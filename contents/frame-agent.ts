@@ -0,0 +1,14 @@
+// Content script for iframes: while the top frame runs a picker or a frame capture it reports
+// the frame's scroll state and scrolls / hit-tests on its behalf, so frames can be stitched
+// and picked from. Otherwise it only listens for the extension's start command.
+import type { PlasmoCSConfig } from "plasmo"
+
+import { startFrameAgent } from "~lib/frames"
+
+export const config: PlasmoCSConfig = {
+  matches: ["<all_urls>"],
+  run_at: "document_idle",
+  all_frames: true
+}
+
+startFrameAgent()
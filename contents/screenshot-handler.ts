@@ -1,17 +1,85 @@
 // Content script for handling full page screenshots
 import type { PlasmoCSConfig } from "plasmo"
 
+import { openAnnotationEditor } from "~lib/annotator"
+import { describeOutputPlan, planOutputBands, type OutputPart } from "~lib/canvas-limits"
+import type { FullPageEngine } from "~lib/cdp-capture"
+import { onImageMessage, requestCdpCapture, requestTile, sendWithImages } from "~lib/capture-client"
+import {
+  elementCaptureRect,
+  pickedRadii,
+  maskElementImage,
+  pickElement,
+  type ElementCaptureOptions
+} from "~lib/element-picker"
+import {
+  capturedExtent,
+  loadImage,
+  outputScale,
+  planScrollPositions,
+  planTileDraws,
+  type ScreenshotData
+} from "~lib/compositor"
+import {
+  FixedElementSuppressor,
+  type FixedElementMode
+} from "~lib/fixed-elements"
+import {
+  DEFAULT_OUTPUT_FORMAT,
+  encodeCanvas,
+  extensionForMimeType,
+  normalizeOutputFormat,
+  type OutputFormat
+} from "~lib/image-format"
+import { renderStitch, type DrawOp } from "~lib/stitcher"
+import { connectFrames, trackFrames } from "~lib/frames"
+import type { CaptureMode } from "~lib/history"
+import { createRequestId, type ExtensionMessage } from "~lib/messages"
+import { canvasToPdf, type PdfPageSize } from "~lib/pdf"
+import {
+  contentOrigin,
+  findSensitiveRects,
+  toCaptureRects,
+  type RedactionHints
+} from "~lib/redaction"
+import { composeSideBySide, type ResponsiveFrame } from "~lib/responsive"
+import {
+  containerScrollTarget,
+  findLargestScrollable,
+  pickScrollContainer,
+  windowScrollTarget,
+  type ClipRect,
+  type Point,
+  type ScrollTarget
+} from "~lib/scroll-target"
+import {
+  DEFAULT_SETTINGS,
+  getSettings,
+  onSettingsChanged,
+  type Settings
+} from "~lib/settings"
+import { warmUpScroll, type WarmUpOptions } from "~lib/warm-up"
+
 export const config: PlasmoCSConfig = {
   matches: ["<all_urls>"],
   run_at: "document_end",
   all_frames: false
 }
 
-interface ScreenshotData {
-  dataUrl: string
-  scrollPosition: { x: number; y: number }
-  viewportHeight: number
-  viewportWidth: number
+interface FullPageOptions {
+  fixedElements?: FixedElementMode
+  // Inner scroll container to stitch instead of the window
+  container?: HTMLElement
+  // Scroll through the page first so lazy-loaded images and content are present
+  warmUp?: WarmUpOptions | false
+  // Defaults to the engine from the settings
+  engine?: FullPageEngine
+}
+
+interface ProgressOverlay {
+  update: (count: number, total: number) => void
+  combining: (drawn: number, total: number) => void
+  remove: () => void
 }
 
 class FullPageScreenshot {
@@ -19,12 +87,34 @@ class FullPageScreenshot {
   private originalScrollPosition = { x: 0, y: 0 }
   private isCapturing = false
   private useSimpleMode = false // Fallback to single screenshot if rate limited
-  public lastCapturedDataUrl: string | null = null
+  public lastCapturedImage: Blob | null = null
+  // Synced settings, kept current by onSettingsChanged; outputFormat is used for stitched/cropped results
+  private settings: Settings = DEFAULT_SETTINGS
+  private outputFormat: OutputFormat = DEFAULT_OUTPUT_FORMAT
+  // Sensitive areas found for the current capture, offered in the result's redaction tool
+  private redactionHints: RedactionHints | null = null
   private expectedScreenshots = 0 // Track how many screenshots we expect
   private capturedScreenshots = 0 // Track how many we've received
-  private progressOverlay?: { update: (count:number,total:number)=>void; remove:()=>void }
+  private progressOverlay?: ProgressOverlay
+
+  // Called on load and whenever settings change in the options page or popup
+  public applySettings(settings: Settings) {
+    this.settings = settings
+    this.outputFormat = normalizeOutputFormat(settings.output)
+  }
+
+  // Measures sensitive areas in page coordinates and maps them into the captured area at `origin`
+  private collectRedactionHints(root: Element, origin: Point, size: { width: number; height: number }) {
+    try {
+      const rects = toCaptureRects(findSensitiveRects(root, this.settings.redactSelectors), origin, size)
+      this.redactionHints = { rects, width: size.width }
+    } catch (e) {
+      console.warn('Could not detect sensitive areas', e)
+      this.redactionHints = null
+    }
+  }
 
-  async captureVisibleArea(): Promise<string | null> {
+  async captureVisibleArea(): Promise<Blob | null> {
     if (this.isCapturing) {
       console.log("Screenshot capture already in progress")
       return null
@@ -41,9 +131,9 @@ class FullPageScreenshot {
 
       // Copy the single screenshot to clipboard directly
       if (this.screenshots.length > 0) {
-        const screenshot = this.screenshots[0]
-        await this.copyToClipboard(screenshot.dataUrl)
-        return screenshot.dataUrl
+        const image = this.screenshots[0].image
+        await this.copyToClipboard(image)
+        return image
       }
 
     } catch (error) {
@@ -57,7 +147,7 @@ class FullPageScreenshot {
     return null
   }
 
-  async captureFullPage(copyToClipboard: boolean = true): Promise<string | null> {
+  async captureFullPage(copyToClipboard: boolean = true, options: FullPageOptions = {}): Promise<OutputPart[] | null> {
     if (this.isCapturing) {
       console.log("Screenshot capture already in progress, resetting...")
       this.isCapturing = false // Reset the flag to allow new captures
@@ -66,40 +156,102 @@ class FullPageScreenshot {
     this.isCapturing = true
     this.screenshots = []
     this.capturedScreenshots = 0
+    this.redactionHints = null
+    const fixedElements = new FixedElementSuppressor(options.fixedElements || this.settings.fixedElements)
+    const warmUpOptions = options.warmUp ?? (this.settings.warmUp ? { maxHeight: this.settings.warmUpMaxHeight } : false)
+    // Known once dimensions are measured, so already captured tiles can still be stitched on failure
+    let stitchSize: { width: number; height: number } | null = null
+    // Esc or the overlay buttons stop the tile loop
+    const abort = this.createCaptureAbort()
+    // Puts the scrolled content (and the window, for containers) back where the user left it
+    let restoreScroll = () => {}
 
     try {
+      const target = options.container ? await containerScrollTarget(options.container) : windowScrollTarget()
+
       // Store original scroll position
-      this.originalScrollPosition = {
-        x: window.scrollX,
-        y: window.scrollY
+      this.originalScrollPosition = target.getScroll()
+      const windowScroll = { x: window.scrollX, y: window.scrollY }
+      restoreScroll = () => {
+        target.scrollTo(this.originalScrollPosition.x, this.originalScrollPosition.y)
+        if (options.container) window.scrollTo(windowScroll.x, windowScroll.y)
       }
 
-      // Get page dimensions
-      const pageHeight = Math.max(
-        document.body.scrollHeight,
-        document.body.offsetHeight,
-        document.documentElement.clientHeight,
-        document.documentElement.scrollHeight,
-        document.documentElement.offsetHeight
-      )
+      // Optional pre-scroll so lazy images / infinite lists load before measuring
+      let heightCap = Infinity
+      if (warmUpOptions) {
+        this.showNotification("Loading lazy content…", "info")
+        try {
+          chrome.runtime.sendMessage({ action: "capture-progress", message: "Loading lazy content..." })
+        } catch (e) {
+          // Popup might be closed, that's ok
+        }
+        const warm = await warmUpScroll(target, { ...warmUpOptions, signal: abort.signal })
+        if (warm.capped) heightCap = warm.height
+        if (abort.signal.aborted) {
+          this.showNotification("Capture cancelled", "info")
+          return null
+        }
+      }
 
-      const pageWidth = Math.max(
-        document.body.scrollWidth,
-        document.body.offsetWidth,
-        document.documentElement.clientWidth,
-        document.documentElement.scrollWidth,
-        document.documentElement.offsetWidth
-      )
+      // Single-shot DevTools Protocol engine; the scroll-and-stitch below is the fallback
+      if (!options.container && (options.engine ?? this.settings.fullPageEngine) === 'cdp') {
+        try {
+          this.showNotification("Rendering full page…", "info")
+          const result = await requestCdpCapture({ signal: abort.signal, maxHeight: Number.isFinite(heightCap) ? heightCap : undefined })
+          this.collectRedactionHints(document.body, contentOrigin(target.element), result)
+          if (copyToClipboard) this.showInteractiveClipboardOption(result.parts, result.notice)
+          return result.parts
+        } catch (error) {
+          if (abort.signal.aborted) {
+            this.showNotification("Capture cancelled", "info")
+            return null
+          }
+          console.warn("Single-shot capture failed, falling back to scroll-and-stitch:", error)
+          this.showNotification(`Single-shot capture unavailable (${error.message}), scrolling instead`, "info")
+        }
+      }
 
-      const viewportHeight = window.innerHeight
-      const viewportWidth = window.innerWidth
+      // Parts of a container cut off by the window edge would be missing from every tile
+      if (options.container) {
+        const r = options.container.getBoundingClientRect()
+        if (r.top < 0 || r.left < 0 || r.bottom > window.innerHeight || r.right > window.innerWidth) {
+          options.container.scrollIntoView({ block: "start", inline: "start", behavior: "instant" })
+        }
+      }
+
+      // Visible content area; scrollbars and anything outside a container are cropped away
+      const clip = target.getClip()
+      const viewportHeight = clip.height
+      const viewportWidth = clip.width
+      if (viewportWidth <= 0 || viewportHeight <= 0) {
+        throw new Error("Scroll area is not visible on screen")
+      }
+
+      // Get page (or container content) dimensions
+      const scrollSize = target.getScrollSize()
+      let pageWidth = scrollSize.width
+      let pageHeight = Math.min(scrollSize.height, heightCap)
+      if (options.container) {
+        // A container taller or wider than the window can't scroll its last clipped strip into view
+        const maxScroll = target.getMaxScroll()
+        pageWidth = Math.min(pageWidth, maxScroll.x + clip.contentX + viewportWidth)
+        pageHeight = Math.min(pageHeight, maxScroll.y + clip.contentY + viewportHeight)
+      }
+      stitchSize = { width: pageWidth, height: pageHeight }
+
+      // Redaction suggestions are measured before any tile scrolls the page
+      this.collectRedactionHints(options.container || document.body, contentOrigin(target.element), stitchSize)
 
       console.log(`Page dimensions: ${pageWidth}x${pageHeight}`)
       console.log(`Viewport dimensions: ${viewportWidth}x${viewportHeight}`)
 
-      // Calculate number of screenshots needed
-      const verticalScreenshots = Math.ceil(pageHeight / viewportHeight)
-      const horizontalScreenshots = Math.ceil(pageWidth / viewportWidth)
+      // Scroll offsets per row/column; the last one is clamped to the max scroll position.
+      // Each tile shows the content from its scroll offset plus the clip's content offset.
+      const yPositions = planScrollPositions(pageHeight - clip.contentY, viewportHeight)
+      const xPositions = planScrollPositions(pageWidth - clip.contentX, viewportWidth)
+      const verticalScreenshots = yPositions.length
+      const horizontalScreenshots = xPositions.length
 
       const totalScreenshots = verticalScreenshots * horizontalScreenshots
       console.log(`Will take ${verticalScreenshots}x${horizontalScreenshots} = ${totalScreenshots} screenshots`)
@@ -114,7 +266,7 @@ class FullPageScreenshot {
 
       // Initialize progress overlay (playful dot eater). Avoid trademark imagery; use generic emoji.
       try {
-        this.progressOverlay = this.showProgressOverlay(totalScreenshots, 'Capturing full page…')
+        this.progressOverlay = this.showProgressOverlay(totalScreenshots, 'Capturing full page…', keepPartial => abort.abort(keepPartial))
       } catch(e) {
         console.warn('Progress overlay failed to initialize', e)
       }
@@ -129,37 +281,61 @@ class FullPageScreenshot {
         // Popup might be closed, that's ok
       }
 
+      // Find fixed/sticky headers, cookie bars etc. so they don't repeat in every tile.
+      // A fixed app shell holding the picked container stays visible, or every tile would be blank.
+      fixedElements.collect(document.body, options.container)
+
       // Sequential capture state
       const expectedScreenshots = totalScreenshots
       let capturedCount = 0
+      let tileRetries = 0
+      // Tiles that failed for reasons other than the quota; they stay blank in the result
+      let skippedTiles = 0
 
       try {
-        // Capture screenshots by scrolling with rate limiting
+        // Capture screenshots by scrolling; pacing against the captureVisibleTab quota happens in the background scheduler
+        tileLoop:
         for (let row = 0; row < verticalScreenshots; row++) {
           console.log(`Starting row ${row}/${verticalScreenshots-1}`)
           for (let col = 0; col < horizontalScreenshots; col++) {
+            if (abort.signal.aborted) break tileLoop
             try {
-              const scrollX = col * viewportWidth
-              const scrollY = row * viewportHeight
+              const scrollX = xPositions[col]
+              const scrollY = yPositions[row]
 
               console.log(`Processing row ${row}, col ${col}: scrolling to ${scrollX},${scrollY}`)
 
               // Scroll to position
-              window.scrollTo(scrollX, scrollY)
+              target.scrollTo(scrollX, scrollY)
 
               // Wait for scroll to complete and page to render
-              await this.waitForScroll(scrollX, scrollY)
-              await this.sleep(300) // Wait for rendering
-
-              // Capture this frame (overlay hidden during actual bitmap capture)
-              const shot = await this.captureFrame(scrollX, scrollY)
+              await this.waitForScroll(scrollX, scrollY, target)
+              // After the scroll: sticky elements are only hidden where they are stuck
+              fixedElements.beforeTile(row, verticalScreenshots)
+              await this.sleep(this.settings.tileDelayMs) // Wait for rendering
+
+              // Capture this frame at the offset the browser actually scrolled to
+              // (overlay hidden during actual bitmap capture)
+              const actual = target.getScroll()
+              const shot = await this.captureFrame(actual.x, actual.y, clip, abort.signal)
               this.screenshots.push(shot)
               capturedCount++
+              tileRetries = 0
               try { this.progressOverlay?.update(capturedCount, expectedScreenshots) } catch(_) {}
-              await this.sleep(650) // rate-limit buffer
             } catch (error) {
+              if (abort.signal.aborted) break tileLoop
               console.error(`Error in screenshot loop at row ${row}, col ${col}:`, error)
-              // Continue with next screenshot
+              // Background already retried with backoff; give the quota one more window before moving on
+              if (isRateLimitError(error) && tileRetries < 2) {
+                tileRetries++
+                await this.sleep(this.settings.rateLimitRetryMs)
+                col--
+                continue
+              }
+              tileRetries = 0
+              // Out of retries: the partial-stitch path below keeps the tiles captured so far
+              if (isRateLimitError(error)) throw error
+              skippedTiles++
             }
           }
           console.log(`Completed row ${row}`)
@@ -173,36 +349,54 @@ class FullPageScreenshot {
         throw outerError
       } 
 
+      let stitchWidth = pageWidth
+      let stitchHeight = pageHeight
+      if (abort.signal.aborted) {
+        fixedElements.restore()
+        restoreScroll()
+        if (!abort.keepPartial || !this.screenshots.length) {
+          console.log("Full page capture cancelled by user")
+          this.showNotification("Capture cancelled", "info")
+          return null
+        }
+        // Trim the blank area below/right of the last captured tile
+        const extent = capturedExtent(this.screenshots)
+        stitchWidth = Math.min(pageWidth, extent.width)
+        stitchHeight = Math.min(pageHeight, extent.height)
+        console.log(`Capture stopped, keeping ${this.screenshots.length}/${totalScreenshots} tiles (${stitchWidth}x${stitchHeight})`)
+      }
+
   console.log(`All screenshots captured! Total: ${this.screenshots.length}`)
   // Force final 100% progress update before combining
   try { this.progressOverlay?.update(this.expectedScreenshots, this.expectedScreenshots) } catch(_) {}
 
-      // Restore original scroll position
-      window.scrollTo(this.originalScrollPosition.x, this.originalScrollPosition.y)
+      // Restore fixed elements and original scroll position
+      fixedElements.restore()
+      restoreScroll()
 
       console.log("About to combine screenshots...")
       // Combine screenshots and optionally copy to clipboard
-  const dataUrl = await this.combineAndCopyScreenshots(pageWidth, pageHeight, viewportWidth, viewportHeight, copyToClipboard)
+  const skippedNotice = skippedTiles
+    ? `${skippedTiles} of ${totalScreenshots} screenshots could not be captured; those parts of the image are blank.`
+    : null
+  const parts = await this.combineAndCopyScreenshots(stitchWidth, stitchHeight, copyToClipboard, skippedNotice)
       console.log("Screenshots combined successfully!")
-      return dataUrl
+      return parts
 
     } catch (error) {
       console.error("Error during full page capture:", error)
+      fixedElements.restore()
 
-      // If full page capture fails due to rate limiting, try visible area capture
-      if (error.message.includes("MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND") ||
-          error.message.includes("rate limit")) {
-        console.log("Full page capture failed due to rate limiting, trying visible area capture...")
-        this.showNotification("Rate limit reached. Capturing visible area instead...", "error")
-
+      // A quota hit must not throw away the tiles captured so far: stitch what we have
+      if (isRateLimitError(error) && stitchSize && this.screenshots.length > 0) {
+        console.log(`Rate limited after ${this.screenshots.length} tiles, stitching partial capture...`)
+        this.showNotification("Rate limit reached. Showing the part captured so far.", "error")
         try {
-          // Reset and try visible area capture
-          this.screenshots = []
-          await this.sleep(2000) // Wait for rate limit to reset
-          await this.captureVisibleArea()
-          return null
+          restoreScroll()
+          const extent = capturedExtent(this.screenshots)
+          return await this.combineAndCopyScreenshots(Math.min(stitchSize.width, extent.width), Math.min(stitchSize.height, extent.height), copyToClipboard)
         } catch (fallbackError) {
-          console.error("Fallback capture also failed:", fallbackError)
+          console.error("Stitching partial capture failed:", fallbackError)
           this.showNotification("Error capturing screenshot: " + fallbackError.message, "error")
           return null
         }
@@ -212,6 +406,9 @@ class FullPageScreenshot {
       }
     } finally {
       this.isCapturing = false
+      abort.dispose()
+      // Always put hidden fixed/sticky elements back, even when the capture failed or was cancelled
+      fixedElements.restore()
       // Delay removal slightly so user perceives 100% state
       try {
         if (this.progressOverlay) {
@@ -222,7 +419,30 @@ class FullPageScreenshot {
     }
   }
 
-  private showProgressOverlay(total: number, titleText: string = 'Capturing full page…') {
+  // Abort handle for a running tile loop; Esc cancels, the overlay can also ask to keep partial results
+  private createCaptureAbort() {
+    const controller = new AbortController()
+    const handle = {
+      signal: controller.signal,
+      keepPartial: false,
+      abort: (keepPartial: boolean = false) => {
+        if (controller.signal.aborted) return
+        handle.keepPartial = keepPartial
+        controller.abort()
+      },
+      dispose: () => document.removeEventListener('keydown', onKeyDown, true)
+    }
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return
+      e.preventDefault()
+      e.stopPropagation()
+      handle.abort(false)
+    }
+    document.addEventListener('keydown', onKeyDown, true)
+    return handle
+  }
+
+  private showProgressOverlay(total: number, titleText: string = 'Capturing full page…', onCancel?: (keepPartial: boolean) => void) {
     // Cap displayed dots to a reasonable number
     const maxDots = 40
     const useDots = Math.min(total, maxDots)
@@ -248,6 +468,21 @@ class FullPageScreenshot {
     const pct = document.createElement('div')
     pct.style.cssText = 'font-size:11px;color:#7f8a93;letter-spacing:.2px;min-height:14px;'
     panel.append(title, meterWrap, pct)
+    if (onCancel) {
+      // Only the panel takes clicks; the rest of the overlay stays click-through
+      panel.style.pointerEvents = 'auto'
+      const controls = document.createElement('div')
+      controls.style.cssText = 'display:flex;gap:6px;margin-top:2px;'
+      const mkCtl = (label: string, keepPartial: boolean) => {
+        const b = document.createElement('button')
+        b.textContent = label
+        b.style.cssText = 'background:#151b20;border:1px solid #232a30;border-radius:8px;color:#e7eaec;font-size:11px;padding:4px 10px;cursor:pointer;'
+        b.onclick = () => { controls.querySelectorAll('button').forEach(btn => (btn as HTMLButtonElement).disabled = true); pct.textContent = 'Stopping…'; onCancel(keepPartial) }
+        return b
+      }
+      controls.append(mkCtl('Cancel (Esc)', false), mkCtl('Stop & keep', true))
+      panel.append(controls)
+    }
     overlay.append(panel)
     document.body.appendChild(overlay)
 
@@ -280,123 +515,70 @@ class FullPageScreenshot {
       }
       pct.textContent = count >= total ? 'Combining screenshots…' : `${count}/${total} (${Math.round(ratio * 100)}%)`
     }
+    // Stitching progress, streamed back from the worker once every tile is in
+    const combining = (drawn:number, total:number) => {
+      if (total > 0) pct.textContent = `Combining screenshots… ${Math.round((drawn / total) * 100)}%`
+    }
 
   const remove = () => { overlay.remove() }
 
     // Initial state
     update(0,total)
-    return { update, remove }
+    return { update, combining, remove }
   }
 
   private async captureCurrentView(scrollX: number, scrollY: number): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error("Screenshot capture timeout"))
-      }, 15000) // Increased timeout for rate-limited captures
-
-      const messageHandler = (message: any) => {
-        console.log(`Received message:`, message.action, `Expected scroll: ${scrollX},${scrollY}, Got: ${message.scrollPosition?.x},${message.scrollPosition?.y}`)
-
-        if (message.action === "screenshot-captured" &&
-            Math.abs(message.scrollPosition.x - scrollX) <= 5 &&
-            Math.abs(message.scrollPosition.y - scrollY) <= 5) {
-          console.log(`Screenshot matched for position ${scrollX},${scrollY}`)
-          clearTimeout(timeout)
-          chrome.runtime.onMessage.removeListener(messageHandler)
-
-          this.screenshots.push({
-            dataUrl: message.dataUrl,
-            scrollPosition: { x: scrollX, y: scrollY },
-            viewportHeight: window.innerHeight,
-            viewportWidth: window.innerWidth
-          })
-
-          console.log(`Screenshot added to collection. Total: ${this.screenshots.length}`)
-          resolve()
-        } else if (message.action === "screenshot-captured") {
-          console.log(`Screenshot position mismatch: expected ${scrollX},${scrollY} but got ${message.scrollPosition?.x},${message.scrollPosition?.y}`)
-        } else if (message.action === "screenshot-error") {
-          clearTimeout(timeout)
-          chrome.runtime.onMessage.removeListener(messageHandler)
-
-          // Check if it's a rate limiting error
-          if (message.error.includes("MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND")) {
-            console.log("Rate limit hit, retrying after delay...")
-            // Retry after a longer delay
-            setTimeout(() => {
-              this.captureCurrentView(scrollX, scrollY).then(resolve).catch(reject)
-            }, 2000)
-          } else {
-            reject(new Error(message.error))
-          }
-        }
-      }
-
-      chrome.runtime.onMessage.addListener(messageHandler)
-
-      // Request screenshot from background script
-      try {
-        console.log(`Requesting screenshot for position ${scrollX},${scrollY}`)
-        chrome.runtime.sendMessage({
-          action: "capture-visible-area",
-          scrollPosition: { x: scrollX, y: scrollY }
-        })
-      } catch (error) {
-        clearTimeout(timeout)
-        chrome.runtime.onMessage.removeListener(messageHandler)
-        reject(new Error("Extension context invalidated"))
+    try {
+      console.log(`Requesting screenshot for position ${scrollX},${scrollY}`)
+      const response = await requestTile({ x: scrollX, y: scrollY })
+      this.screenshots.push({
+        image: response.image,
+        scrollPosition: { x: scrollX, y: scrollY },
+        viewportHeight: window.innerHeight,
+        viewportWidth: window.innerWidth,
+        devicePixelRatio: window.devicePixelRatio || 1
+      })
+      console.log(`Screenshot added to collection. Total: ${this.screenshots.length}`)
+    } catch (error) {
+      // Check if it's a rate limiting error
+      if (isRateLimitError(error)) {
+        console.log("Rate limit hit, retrying after delay...")
+        // Retry after a longer delay
+        await this.sleep(2000)
+        return this.captureCurrentView(scrollX, scrollY)
       }
-    })
+      throw error
+    }
   }
 
-  private async captureFrame(scrollX: number, scrollY: number): Promise<ScreenshotData> {
+  private async captureFrame(scrollX: number, scrollY: number, clip: ClipRect = windowScrollTarget().getClip(), signal?: AbortSignal): Promise<ScreenshotData> {
     return withProgressHidden(async () => {
-      return new Promise<ScreenshotData>((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          chrome.runtime.onMessage.removeListener(handler)
-          reject(new Error('Frame capture timeout'))
-        }, 15000)
-        const handler = (message: any) => {
-          if (message.action === 'screenshot-captured' && Math.abs(message.scrollPosition.x - scrollX) <= 5 && Math.abs(message.scrollPosition.y - scrollY) <= 5) {
-            clearTimeout(timeout)
-            chrome.runtime.onMessage.removeListener(handler)
-            resolve({
-              dataUrl: message.dataUrl,
-              scrollPosition: { x: scrollX, y: scrollY },
-              viewportHeight: window.innerHeight,
-              viewportWidth: window.innerWidth
-            })
-          } else if (message.action === 'screenshot-error') {
-            clearTimeout(timeout)
-            chrome.runtime.onMessage.removeListener(handler)
-            reject(new Error(message.error))
-          }
-        }
-        chrome.runtime.onMessage.addListener(handler)
-        try {
-          chrome.runtime.sendMessage({ action: 'capture-visible-area', scrollPosition: { x: scrollX, y: scrollY } })
-        } catch (e) {
-          clearTimeout(timeout)
-          chrome.runtime.onMessage.removeListener(handler)
-          reject(new Error('Extension context invalidated'))
-        }
-      })
+      const response = await requestTile({ x: scrollX, y: scrollY }, { signal })
+      if (response.timing) {
+        console.log(`Frame ${scrollX},${scrollY}: queued ${response.timing.queuedMs}ms, captured in ${response.timing.captureMs}ms (${response.timing.attempts} attempt(s))`)
+      }
+      return {
+        image: response.image,
+        // Position inside the stitched content, not just the scroll offset, for partly visible containers
+        scrollPosition: { x: scrollX + clip.contentX, y: scrollY + clip.contentY },
+        viewportHeight: clip.height,
+        viewportWidth: clip.width,
+        devicePixelRatio: window.devicePixelRatio || 1,
+        clipOffset: { x: clip.x, y: clip.y }
+      }
     })
   }
 
-  public async copyToClipboard(dataUrl: string) {
+  public async copyToClipboard(image: Blob) {
     try {
       console.log("Content script requesting clipboard copy from background")
 
-      // Store the dataUrl for potential fallback use
-      this.lastCapturedDataUrl = dataUrl
+      // Store the image for potential fallback use
+      this.lastCapturedImage = image
 
       // Send clipboard request to background script
       // Background script has better clipboard access in Manifest V3
-      chrome.runtime.sendMessage({
-        action: "copy-to-clipboard",
-        dataUrl: dataUrl
-      })
+      await sendWithImages({ action: "copy-to-clipboard" }, [image])
 
       // Show loading notification
       this.showNotification("Copying to clipboard...", "info")
@@ -410,39 +592,43 @@ class FullPageScreenshot {
     }
   }
 
-  private downloadImage(dataUrl: string, filename: string) {
-    const link = document.createElement('a')
-    link.href = dataUrl
-    link.download = filename
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
+  // Saved by the background through chrome.downloads (file name template, subfolder, "Save as"),
+  // so the page's CSP can't block it; the result comes back as a download-result message
+  private async downloadFile(image: Blob, extension: string, mode: CaptureMode, size: { width: number, height: number }, capturedAt: Date) {
+    const message: ExtensionMessage = {
+      action: 'download-capture',
+      extension,
+      mode,
+      width: size.width,
+      height: size.height,
+      capturedAt: capturedAt.getTime()
+    }
+    await sendWithImages(message, [image])
   }
 
-  private showInteractiveClipboardOption(dataUrl: string) {
-    this.showResultOverlay('Full Page Screenshot', dataUrl, 'full-page-screenshot')
+  private showInteractiveClipboardOption(parts: OutputPart[], notice?: string | null) {
+    if (notice) this.showNotification(notice, 'info')
+    this.showResultParts('Full Page Screenshot', parts, 'full')
   }
 
-  private async copyImageDirectlyToClipboard(dataUrl: string): Promise<void> {
-    console.log(`Copying image to clipboard - dataUrl length: ${dataUrl.length}`)
-    console.log(`DataUrl preview: ${dataUrl.substring(0, 100)}...`)
-
-    // Convert to blob
-    const response = await fetch(dataUrl)
-    let blob = await response.blob()
+  private async copyImageDirectlyToClipboard(image: Blob): Promise<void> {
+    let blob = image
 
     console.log(`Original blob size: ${(blob.size / (1024 * 1024)).toFixed(2)} MB`)
     console.log(`Original blob type: ${blob.type}`)
 
     // Compress if too large
-    if (blob.size > 8 * 1024 * 1024) {
+    if (blob.size > this.settings.clipboardCompressMB * 1024 * 1024) {
       console.log("Compressing large image for clipboard...")
-      const compressedDataUrl = await this.compressImageForClipboard(dataUrl, blob.size / (1024 * 1024))
-      const compressedResponse = await fetch(compressedDataUrl)
-      blob = await compressedResponse.blob()
+      blob = await this.compressImageForClipboard(blob, blob.size / (1024 * 1024))
       console.log(`Compressed blob size: ${(blob.size / (1024 * 1024)).toFixed(2)} MB`)
     }
 
+    // Chrome's async clipboard only accepts image/png, whatever format was chosen for download
+    if (blob.type !== 'image/png') {
+      blob = await this.convertToPngBlob(blob)
+    }
+
     console.log(`About to copy blob of size ${blob.size} bytes to clipboard`)
 
     // Copy to clipboard (user interaction context)
@@ -453,10 +639,37 @@ class FullPageScreenshot {
     console.log("Successfully copied to clipboard!")
   }
 
-  private showDebugImage(dataUrl: string, width: number, height: number) {
+  private async convertToPngBlob(blob: Blob): Promise<Blob> {
+    const url = URL.createObjectURL(blob)
+    try {
+      const img = await loadImage(url)
+      const canvas = document.createElement('canvas')
+      canvas.width = img.naturalWidth
+      canvas.height = img.naturalHeight
+      canvas.getContext('2d')!.drawImage(img, 0, 0)
+      return await new Promise<Blob>((resolve, reject) => canvas.toBlob(b => b ? resolve(b) : reject(new Error('Could not create PNG for clipboard')), 'image/png'))
+    } finally {
+      URL.revokeObjectURL(url)
+    }
+  }
+
+  // Re-encodes a raw PNG capture when another output format is selected
+  private async encodeForOutput(image: Blob): Promise<Blob> {
+    if (this.outputFormat.format === 'png') return image
+    const bitmap = await createImageBitmap(image)
+    const canvas = document.createElement('canvas')
+    canvas.width = bitmap.width
+    canvas.height = bitmap.height
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0)
+    bitmap.close()
+    return encodeCanvas(canvas, this.outputFormat)
+  }
+
+  private showDebugImage(image: Blob, width: number, height: number) {
     // Create a small preview image to verify the combination worked
     const debugImg = document.createElement('img')
-    debugImg.src = dataUrl
+    const url = URL.createObjectURL(image)
+    debugImg.src = url
     debugImg.style.cssText = `
       position: fixed;
       top: 10px;
@@ -476,28 +689,24 @@ class FullPageScreenshot {
       if (debugImg.parentNode) {
         document.body.removeChild(debugImg)
       }
+      URL.revokeObjectURL(url)
     }, 5000)
 
     console.log("Debug image shown in top-right corner for 5 seconds")
   }
 
-  private async copyLargeImageToClipboard(dataUrl: string): Promise<void> {
+  private async copyLargeImageToClipboard(originalBlob: Blob): Promise<void> {
     // Ensure document focus before any clipboard operation
     await this.ensureDocumentFocus()
 
-    // Convert dataUrl to blob to check size
-    const response = await fetch(dataUrl)
-    const originalBlob = await response.blob()
     const originalSizeMB = originalBlob.size / (1024 * 1024)
 
     console.log(`Original image size: ${originalSizeMB.toFixed(2)} MB`)
 
-    // If image is larger than 8MB, compress it
-    if (originalSizeMB > 8) {
+    // Large images are compressed first (threshold from settings, 8 MB by default)
+    if (originalSizeMB > this.settings.clipboardCompressMB) {
       console.log("Image too large for clipboard, compressing...")
-      const compressedDataUrl = await this.compressImageForClipboard(dataUrl, originalSizeMB)
-      const compressedResponse = await fetch(compressedDataUrl)
-      const compressedBlob = await compressedResponse.blob()
+      const compressedBlob = await this.compressImageForClipboard(originalBlob, originalSizeMB)
       const compressedSizeMB = compressedBlob.size / (1024 * 1024)
 
       console.log(`Compressed image size: ${compressedSizeMB.toFixed(2)} MB`)
@@ -556,9 +765,11 @@ class FullPageScreenshot {
     console.log(`Document focus status: ${document.hasFocus()}`)
   }
 
-  private async compressImageForClipboard(dataUrl: string, originalSizeMB: number): Promise<string> {
-    return new Promise((resolve) => {
+  private async compressImageForClipboard(image: Blob, originalSizeMB: number): Promise<Blob> {
+    const url = URL.createObjectURL(image)
+    return new Promise<Blob>((resolve, reject) => {
       const img = new Image()
+      img.onerror = () => reject(new Error('Could not load image for compression'))
       img.onload = () => {
         const canvas = document.createElement('canvas')
         const ctx = canvas.getContext('2d')!
@@ -586,13 +797,11 @@ class FullPageScreenshot {
 
         // Use JPEG with quality based on size
         const quality = originalSizeMB > 15 ? 0.6 : 0.7
-        const compressedDataUrl = canvas.toDataURL('image/jpeg', quality)
-
         console.log(`Compressed from ${img.width}x${img.height} to ${newWidth}x${newHeight} (${(compressionRatio * 100).toFixed(0)}% scale, ${(quality * 100).toFixed(0)}% quality)`)
-        resolve(compressedDataUrl)
+        canvas.toBlob(b => b ? resolve(b) : reject(new Error('Could not compress image for clipboard')), 'image/jpeg', quality)
       }
-      img.src = dataUrl
-    })
+      img.src = url
+    }).finally(() => URL.revokeObjectURL(url))
   }
 
 
@@ -719,77 +928,51 @@ class FullPageScreenshot {
     this.showNotification("Right-click the image and select 'Copy Image' to copy to clipboard", "error")
   }
 
-  private async combineAndCopyScreenshots(pageWidth: number, pageHeight: number, viewportWidth: number, viewportHeight: number, copyToClipboard: boolean = true): Promise<string> {
-    // Create canvas to combine screenshots
-    const canvas = document.createElement("canvas")
-    canvas.width = pageWidth
-    canvas.height = pageHeight
-    const ctx = canvas.getContext("2d")
-
-    if (!ctx) {
-      throw new Error("Could not get canvas context")
-    }
-
-    // Load and draw each screenshot at correct positions
-    console.log(`Combining ${this.screenshots.length} screenshots into ${pageWidth}x${pageHeight} canvas`)
-
-    for (let i = 0; i < this.screenshots.length; i++) {
-      const screenshot = this.screenshots[i]
-      const img = new Image()
-      await new Promise((resolve, reject) => {
-        img.onload = resolve
-        img.onerror = reject
-        img.src = screenshot.dataUrl
+  private async combineAndCopyScreenshots(pageWidth: number, pageHeight: number, copyToClipboard: boolean = true, notice?: string | null): Promise<OutputPart[]> {
+    // Place each tile at its recorded scroll position, at device-pixel resolution, split into
+    // as many images as the browser's canvas limits require
+    const plan = planOutputBands(pageWidth, pageHeight, outputScale(this.screenshots))
+    console.log(`Combining ${this.screenshots.length} screenshots into ${pageWidth}x${pageHeight} page (${plan.bands.length} image(s))`)
+    const parts: OutputPart[] = []
+    const totalDraws = plan.bands.reduce((sum, band) => sum + planTileDraws(this.screenshots, plan.width, pageHeight, band).draws.length, 0)
+    let drawnBefore = 0
+    for (const band of plan.bands) {
+      const job = planTileDraws(this.screenshots, plan.width, pageHeight, band)
+      const image = await renderStitch(job, this.outputFormat, drawn => {
+        try { this.progressOverlay?.combining(drawnBefore + drawn, totalDraws) } catch(_) {}
       })
-
-      // Calculate the correct position in the combined image
-      // For vertical stacking: each screenshot goes at y = i * viewportHeight
-      const canvasX = 0  // Always start at left edge
-      const canvasY = i * viewportHeight  // Stack vertically
-
-      console.log(`Drawing screenshot ${i + 1} at canvas position (${canvasX}, ${canvasY})`)
-
-      ctx.drawImage(
-        img,
-        canvasX,
-        canvasY,
-        viewportWidth,
-        viewportHeight
-      )
+      drawnBefore += job.draws.length
+      parts.push({ image, ...band })
+      console.log(`Encoded ${job.width}x${job.height} image for rows ${band.y}-${band.y + band.height}`)
+      // Let go of tiles no later band needs, so their memory is freed while the rest is stitched
+      this.screenshots = this.screenshots.filter(t => t.scrollPosition.y + t.viewportHeight > band.y + band.height)
     }
-
-    // Convert canvas to data URL
-    const finalDataUrl = canvas.toDataURL("image/png")
-
-    // Debug: Log canvas and final image info
-    console.log(`Final canvas dimensions: ${canvas.width}x${canvas.height}`)
-    console.log(`Final dataUrl length: ${finalDataUrl.length} characters`)
-    console.log(`Final dataUrl starts with: ${finalDataUrl.substring(0, 50)}...`)
+    // Partial captures can be narrower than the page the suggestions were measured against
+    if (this.redactionHints) this.redactionHints = { ...this.redactionHints, width: plan.width }
 
     // Debug: Temporarily show the combined image to verify it's correct
-    this.showDebugImage(finalDataUrl, canvas.width, canvas.height)
+    this.showDebugImage(parts[0].image, plan.width, parts[0].height)
 
     // For full page screenshots, show interactive clipboard option
     if (copyToClipboard) {
       console.log("Showing interactive clipboard option for full page screenshot...")
-      this.showInteractiveClipboardOption(finalDataUrl)
+      const notes = [notice, describeOutputPlan(plan, pageWidth, pageHeight)].filter(Boolean)
+      this.showInteractiveClipboardOption(parts, notes.length ? notes.join(" ") : null)
     }
 
-    return finalDataUrl
+    return parts
   }
 
-  private async waitForScroll(targetX: number, targetY: number): Promise<void> {
+  private async waitForScroll(targetX: number, targetY: number, target: ScrollTarget = windowScrollTarget()): Promise<void> {
     return new Promise((resolve) => {
       let attempts = 0
       const maxAttempts = 60 // Max 1 second at 60fps
 
       const checkScroll = () => {
-        const currentX = window.scrollX
-        const currentY = window.scrollY
+        const { x: currentX, y: currentY } = target.getScroll()
 
         // Check if we're close enough OR if we've reached the maximum scroll position
-        const maxScrollY = Math.max(0, document.documentElement.scrollHeight - window.innerHeight)
-        const maxScrollX = Math.max(0, document.documentElement.scrollWidth - window.innerWidth)
+        const { x: maxScrollX, y: maxScrollY } = target.getMaxScroll()
 
         const xMatches = Math.abs(currentX - targetX) < 10 || currentX >= maxScrollX
         const yMatches = Math.abs(currentY - targetY) < 10 || currentY >= maxScrollY
@@ -995,7 +1178,8 @@ class FullPageScreenshot {
         return
       }
       try {
-        await this.captureRegion(rect)
+        const image = await this.captureRegion(rect)
+        if (image) this.showRegionResultOptions(image)
       } catch (err: any) {
         console.error('Region capture failed:', err)
         this.showNotification('Region capture failed: ' + err.message, 'error')
@@ -1118,7 +1302,10 @@ class FullPageScreenshot {
     this.regionCurrent = null
   }
 
-  private async captureRegion(rect: { x: number; y: number; width: number; height: number }) {
+  // Resolves with the region at CSS px resolution, or null when the user cancelled
+  private async captureRegion(rect: { x: number; y: number; width: number; height: number }): Promise<Blob | null> {
+    // Both paths below compose the region at CSS px with its top-left at (rect.x, rect.y)
+    this.collectRedactionHints(document.body, { x: rect.x, y: rect.y }, rect)
     const scrollX = window.scrollX
     const scrollY = window.scrollY
     // Safety: small delay to ensure any transient UI is gone
@@ -1137,35 +1324,22 @@ class FullPageScreenshot {
 
     if (fullyVisible && rect.width <= viewportWidth && rect.height <= viewportHeight) {
       // Single capture path with progress overlay (1 step)
-      let localOverlay: {update:(c:number,t:number)=>void;remove:()=>void}|undefined
+      let localOverlay: ProgressOverlay|undefined
       try { localOverlay = this.showProgressOverlay(1, 'Capturing region…') } catch(_) {}
       try {
-        const dataUrl: string = await withProgressHidden(async () => new Promise((resolve, reject) => {
-          const handler = (message: any) => {
-            if (message.action === 'screenshot-captured') {
-              chrome.runtime.onMessage.removeListener(handler)
-              resolve(message.dataUrl)
-            } else if (message.action === 'screenshot-error') {
-              chrome.runtime.onMessage.removeListener(handler)
-              reject(new Error(message.error))
-            }
-          }
-          chrome.runtime.onMessage.addListener(handler)
-          chrome.runtime.sendMessage({ action: 'capture-visible-area', scrollPosition: { x: currentScrollX, y: currentScrollY } })
-        }))
+        const { image } = await withProgressHidden(() => requestTile({ x: currentScrollX, y: currentScrollY }))
         localOverlay?.update(1,1)
         const relativeViewportRect = { x: rect.x - currentScrollX, y: rect.y - currentScrollY, width: rect.width, height: rect.height }
-        const cropped = await this.cropDataUrl(dataUrl, relativeViewportRect)
-        this.showRegionResultOptions(cropped)
+        return await this.cropImage(image, relativeViewportRect)
       } finally {
         try { if (localOverlay) { const ref = localOverlay; setTimeout(()=>{ try { ref.remove() } catch(_){} }, 400) } } catch(_) {}
       }
     } else {
-      await this.captureRegionMultiScroll(rect)
+      return this.captureRegionMultiScroll(rect)
     }
   }
 
-  private async captureRegionMultiScroll(rect: { x: number; y: number; width: number; height: number }) {
+  private async captureRegionMultiScroll(rect: { x: number; y: number; width: number; height: number }): Promise<Blob | null> {
     const original = { x: window.scrollX, y: window.scrollY }
     const viewportWidth = window.innerWidth
     const viewportHeight = window.innerHeight
@@ -1178,56 +1352,53 @@ class FullPageScreenshot {
     for (let x = startX; x < rect.x + rect.width; x += viewportWidth) xTiles.push(x)
     for (let y = startY; y < rect.y + rect.height; y += viewportHeight) yTiles.push(y)
 
-    const tiles: { dataUrl: string; x: number; y: number }[] = []
+    const tiles: { image: Blob; x: number; y: number }[] = []
 
-    const captureTile = (scrollX: number, scrollY: number) => new Promise<void>(async (resolve) => {
+    const abort = this.createCaptureAbort()
+    const captureTile = async (scrollX: number, scrollY: number) => {
       window.scrollTo(scrollX, scrollY)
       await this.waitForScroll(scrollX, scrollY)
-      await this.sleep(250)
-      const dataUrl: string = await withProgressHidden(async () => new Promise((res, rej) => {
-        const handler = (message: any) => {
-          if (message.action === 'screenshot-captured' && Math.abs(message.scrollPosition.x - scrollX) < 5 && Math.abs(message.scrollPosition.y - scrollY) < 5) {
-            chrome.runtime.onMessage.removeListener(handler)
-            res(message.dataUrl)
-          } else if (message.action === 'screenshot-error') {
-            chrome.runtime.onMessage.removeListener(handler)
-            rej(new Error(message.error))
-          }
-        }
-        chrome.runtime.onMessage.addListener(handler)
-        chrome.runtime.sendMessage({ action: 'capture-visible-area', scrollPosition: { x: scrollX, y: scrollY } })
-      }))
-      tiles.push({ dataUrl, x: scrollX, y: scrollY })
-      await this.sleep(650) // rate-limit buffer
-      resolve()
-    })
+      await this.sleep(this.settings.regionTileDelayMs)
+      // Near the bottom or right edge the browser clamps the scroll, so place the tile where it actually is
+      const actual = { x: window.scrollX, y: window.scrollY }
+      const { image } = await withProgressHidden(() => requestTile(actual, { signal: abort.signal }))
+      tiles.push({ image, ...actual })
+    }
 
     // Region progress overlay across tiles
     const totalTiles = xTiles.length * yTiles.length
-    let regionOverlayRef: {update:(c:number,t:number)=>void;remove:()=>void}|undefined
-    try { regionOverlayRef = this.showProgressOverlay(totalTiles, 'Capturing region…') } catch(_) {}
+    let regionOverlayRef: ProgressOverlay|undefined
+    try { regionOverlayRef = this.showProgressOverlay(totalTiles, 'Capturing region…', keepPartial => abort.abort(keepPartial)) } catch(_) {}
 
     let capturedTiles = 0
-    for (const y of yTiles) {
-      for (const x of xTiles) {
-        try {
-          await captureTile(x, y)
-          capturedTiles++
-          try { regionOverlayRef?.update(capturedTiles, totalTiles) } catch(_) {}
-        } catch (e) {
-          console.error('Tile capture failed', x, y, e)
+    try {
+      tileLoop:
+      for (const y of yTiles) {
+        for (const x of xTiles) {
+          if (abort.signal.aborted) break tileLoop
+          try {
+            await captureTile(x, y)
+            capturedTiles++
+            try { regionOverlayRef?.update(capturedTiles, totalTiles) } catch(_) {}
+          } catch (e) {
+            if (abort.signal.aborted) break tileLoop
+            console.error('Tile capture failed', x, y, e)
+          }
         }
       }
+    } finally {
+      abort.dispose()
+      window.scrollTo(original.x, original.y)
     }
 
-    window.scrollTo(original.x, original.y)
+    if (abort.signal.aborted && (!abort.keepPartial || !tiles.length)) {
+      try { regionOverlayRef?.remove() } catch(_) {}
+      this.showNotification('Region capture cancelled', 'info')
+      return null
+    }
 
     // Compose only the region
-    const canvas = document.createElement('canvas')
-    canvas.width = rect.width
-    canvas.height = rect.height
-    const ctx = canvas.getContext('2d')!
-
+    const draws: DrawOp[] = []
     for (const tile of tiles) {
       const overlapX1 = Math.max(rect.x, tile.x)
       const overlapY1 = Math.max(rect.y, tile.y)
@@ -1236,47 +1407,56 @@ class FullPageScreenshot {
       const ow = overlapX2 - overlapX1
       const oh = overlapY2 - overlapY1
       if (ow <= 0 || oh <= 0) continue
-      const img = new Image()
-      await new Promise((res, rej) => { img.onload = () => res(null); img.onerror = rej; img.src = tile.dataUrl })
-      const sx = (overlapX1 - tile.x) * dpr
-      const sy = (overlapY1 - tile.y) * dpr
-      ctx.drawImage(img, sx, sy, ow * dpr, oh * dpr, overlapX1 - rect.x, overlapY1 - rect.y, ow, oh)
+      draws.push({
+        image: tile.image,
+        sx: Math.round((overlapX1 - tile.x) * dpr),
+        sy: Math.round((overlapY1 - tile.y) * dpr),
+        sw: Math.round(ow * dpr),
+        sh: Math.round(oh * dpr),
+        dx: overlapX1 - rect.x,
+        dy: overlapY1 - rect.y,
+        dw: ow,
+        dh: oh
+      })
     }
 
-    const finalDataUrl = canvas.toDataURL('image/png')
+    const finalImage = await renderStitch({ width: rect.width, height: rect.height, draws }, this.outputFormat, (drawn, total) => {
+      try { regionOverlayRef?.combining(drawn, total) } catch(_) {}
+    })
     try { regionOverlayRef?.update(totalTiles,totalTiles) } catch(_) {}
-    this.showRegionResultOptions(finalDataUrl)
     try { if (regionOverlayRef) { const ref = regionOverlayRef; setTimeout(()=>{ try { ref.remove() } catch(_){} }, 450) } } catch(_) {}
+    return finalImage
   }
 
-  private async cropDataUrl(dataUrl: string, rect: { x: number; y: number; width: number; height: number }): Promise<string> {
-    const img = new Image()
-    img.src = dataUrl
-    await new Promise((res, rej) => { img.onload = () => res(null); img.onerror = rej })
-    const canvas = document.createElement('canvas')
-    canvas.width = rect.width
-    canvas.height = rect.height
-    const ctx = canvas.getContext('2d')!
+  private cropImage(image: Blob, rect: { x: number; y: number; width: number; height: number }): Promise<Blob> {
     const scale = devicePixelRatio || 1
-    ctx.drawImage(
-      img,
-      rect.x * scale,
-      rect.y * scale,
-      rect.width * scale,
-      rect.height * scale,
-      0,
-      0,
-      rect.width,
-      rect.height
-    )
-    return canvas.toDataURL('image/png')
+    return renderStitch({
+      width: rect.width,
+      height: rect.height,
+      draws: [{
+        image,
+        sx: Math.round(rect.x * scale),
+        sy: Math.round(rect.y * scale),
+        sw: Math.round(rect.width * scale),
+        sh: Math.round(rect.height * scale),
+        dx: 0,
+        dy: 0,
+        dw: rect.width,
+        dh: rect.height
+      }]
+    }, this.outputFormat)
   }
 
-  private showRegionResultOptions(dataUrl: string) {
-    this.showResultOverlay('Region Screenshot', dataUrl, 'region-screenshot')
+  private showRegionResultOptions(image: Blob) {
+    this.showResultOverlay('Region Screenshot', image, 'region')
   }
 
-  private showResultOverlay(titleText: string, dataUrl: string, filenameBase: string) {
+  private showResultOverlay(titleText: string, image: Blob, mode: CaptureMode, onClose?: () => void) {
+    // Annotating or redacting replaces this entry instead of adding one per edit
+    const historyId = createRequestId()
+    this.saveToHistory(image, mode, historyId)
+    const redactions = this.redactionHints
+    this.redactionHints = null
     const overlay = document.createElement('div')
     overlay.style.cssText = 'position:fixed;inset:0;background:rgba(0,0,0,.55);z-index:2147483647;display:flex;align-items:center;justify-content:center;font-family:system-ui,-apple-system,Segoe UI,Roboto,sans-serif;'
     const panel = document.createElement('div')
@@ -1285,7 +1465,8 @@ class FullPageScreenshot {
     title.textContent = titleText
     title.style.cssText = 'font-size:14px;font-weight:600;letter-spacing:.3px;color:#e7eaec;'
     const preview = document.createElement('img')
-    preview.src = dataUrl
+    let previewUrl = URL.createObjectURL(image)
+    preview.src = previewUrl
     preview.style.cssText = 'max-width:100%;max-height:50vh;border:1px solid #232a30;border-radius:10px;background:#0f1214;object-fit:contain;'
     const actions = document.createElement('div')
     actions.style.cssText = 'display:flex;gap:10px;'
@@ -1294,26 +1475,221 @@ class FullPageScreenshot {
     const mkBtn = (label:string)=>{ const b=document.createElement('button'); b.textContent=label; b.style.cssText='flex:1;background:#151b20;border:none;border-radius:10px;color:#e7eaec;font-size:12.5px;font-weight:500;padding:10px 12px;cursor:pointer;display:flex;align-items:center;justify-content:center;gap:6px;transition:background .15s;box-shadow:0 1px 2px rgba(0,0,0,.35)'; b.onmouseenter=()=>{if(!b.disabled)b.style.background='#1b2329'}; b.onmouseleave=()=>{if(!b.disabled)b.style.background='#151b20'}; b.onmousedown=()=>{if(!b.disabled)b.style.background='#202a31'}; b.onmouseup=()=>{if(!b.disabled)b.style.background='#1b2329'}; return b }
     const copyBtn = mkBtn('Copy')
     const downloadBtn = mkBtn('Download')
+    const annotateBtn = mkBtn('Annotate')
+    const redactBtn = mkBtn('Redact')
     const closeBtn = mkBtn('Close')
-    actions.append(copyBtn, downloadBtn, closeBtn)
-    panel.append(title, preview, actions, status)
+    actions.append(copyBtn, downloadBtn, annotateBtn, redactBtn, closeBtn)
+    // PDF export: page size + margins, split at blank rows
+    const capturedAt = new Date()
+    const pdfRow = document.createElement('div')
+    pdfRow.style.cssText = 'display:flex;gap:8px;align-items:center;font-size:11.5px;color:#7f8a93;'
+    const ctlCss = 'background:#151b20;color:#e7eaec;border:1px solid #232a30;border-radius:6px;font-size:11.5px;padding:4px 6px;'
+    const pageSizeSel = document.createElement('select')
+    pageSizeSel.style.cssText = ctlCss
+    pageSizeSel.innerHTML = '<option value="a4">A4</option><option value="letter">Letter</option>'
+    pageSizeSel.value = this.settings.pdf.pageSize
+    const marginInput = document.createElement('input')
+    marginInput.type = 'number'
+    marginInput.min = '0'
+    marginInput.max = '50'
+    marginInput.value = String(this.settings.pdf.marginMm)
+    marginInput.title = 'Margin (mm)'
+    marginInput.style.cssText = ctlCss + 'width:52px;'
+    const marginLabel = document.createElement('span')
+    marginLabel.textContent = 'mm'
+    const pdfBtn = mkBtn('Save as PDF')
+    pdfRow.append(pageSizeSel, marginInput, marginLabel, pdfBtn)
+    panel.append(title, preview, actions, pdfRow, status)
     overlay.append(panel)
     document.body.appendChild(overlay)
-    copyBtn.onclick = async ()=>{ copyBtn.disabled=true; copyBtn.textContent='Copying…'; status.textContent='Copying to clipboard...'; try { await this.copyImageDirectlyToClipboard(dataUrl); copyBtn.textContent='Copied'; status.textContent='Copied.'; setTimeout(()=>overlay.remove(),650) } catch(e:any){ copyBtn.textContent='Failed'; status.textContent='Copy failed'; copyBtn.disabled=false } }
-    downloadBtn.onclick = ()=>{ this.downloadImage(dataUrl, `${filenameBase}-${Date.now()}.png`); status.textContent='Downloaded.' }
-    closeBtn.onclick = ()=> overlay.remove()
-    overlay.onclick = (e)=>{ if(e.target===overlay) overlay.remove() }
+    const close = ()=>{ overlay.remove(); URL.revokeObjectURL(previewUrl); onClose?.() }
+    // Editing replaces `image`, so Copy / Download / PDF below always use the edited image
+    const edit = async (tool: 'arrow' | 'pixelate')=>{
+      overlay.style.display='none'
+      try {
+        const edited = await openAnnotationEditor(image, { output: this.outputFormat, tool, redactions })
+        if (edited) {
+          image = edited
+          URL.revokeObjectURL(previewUrl)
+          previewUrl = URL.createObjectURL(edited)
+          preview.src = previewUrl
+          this.saveToHistory(edited, mode, historyId)
+          status.textContent='Annotations applied.'
+        }
+      } catch(e:any) {
+        console.error('Annotation editor failed:', e)
+        status.textContent='Could not open editor: ' + e.message
+      } finally {
+        overlay.style.display='flex'
+      }
+    }
+    annotateBtn.onclick = ()=> edit('arrow')
+    redactBtn.onclick = ()=> edit('pixelate')
+    if (redactions?.rects.length) redactBtn.textContent = `Redact (${redactions.rects.length})`
+    copyBtn.onclick = async ()=>{ copyBtn.disabled=true; copyBtn.textContent='Copying…'; status.textContent='Copying to clipboard...'; try { await this.copyImageDirectlyToClipboard(image); copyBtn.textContent='Copied'; status.textContent='Copied.'; setTimeout(close,650) } catch(e:any){ copyBtn.textContent='Failed'; status.textContent='Copy failed'; copyBtn.disabled=false } }
+    downloadBtn.onclick = async ()=>{ status.textContent='Saving...'; try { const bitmap = await createImageBitmap(image); const size = { width: bitmap.width, height: bitmap.height }; bitmap.close(); await this.downloadFile(image, extensionForMimeType(image.type), mode, size, capturedAt); status.textContent='Download started.' } catch(e:any){ status.textContent='Download failed: ' + e.message } }
+    pdfBtn.onclick = async ()=>{
+      pdfBtn.disabled=true; status.textContent='Building PDF...'
+      try {
+        const bitmap = await createImageBitmap(image)
+        const canvas = document.createElement('canvas')
+        canvas.width = bitmap.width
+        canvas.height = bitmap.height
+        canvas.getContext('2d')!.drawImage(bitmap, 0, 0)
+        bitmap.close()
+        const pdf = await canvasToPdf(canvas, {
+          pageSize: pageSizeSel.value as PdfPageSize,
+          marginMm: Number(marginInput.value) || 0,
+          url: location.href,
+          title: document.title,
+          capturedAt
+        })
+        await this.downloadFile(pdf, 'pdf', mode, canvas, capturedAt)
+        status.textContent='PDF download started.'
+      } catch(e:any) {
+        console.error('PDF export failed:', e)
+        status.textContent='PDF export failed: ' + e.message
+      } finally {
+        pdfBtn.disabled=false
+      }
+    }
+    closeBtn.onclick = close
+    overlay.onclick = (e)=>{ if(e.target===overlay) close() }
+  }
+
+  // ================= SCROLL CONTAINER CAPTURE =================
+  public async startScrollContainerCapture(fixedElements?: FixedElementMode, warmUp?: WarmUpOptions | false) {
+    if (this.isCapturing) return
+    // Frame agents stay awake until the picked area (possibly a frame's document) is captured
+    const disconnectFrames = await connectFrames()
+    try {
+      const suggested = findLargestScrollable()
+      this.showNotification(
+        suggested
+          ? "Click a scrollable area, or press Enter for the highlighted one. ESC to cancel."
+          : "Click a scrollable area to capture. ESC to cancel.",
+        "info"
+      )
+      const container = await pickScrollContainer(suggested)
+      if (!container) {
+        this.showNotification("Scroll area capture cancelled", "error")
+        return
+      }
+      // Let the picker highlight disappear before the first tile
+      await this.sleep(60)
+      await this.captureFullPage(true, { fixedElements, container, warmUp })
+    } finally {
+      disconnectFrames()
+    }
+  }
+
+  // ================= ELEMENT CAPTURE =================
+  // `element` skips the picker (context menu "Capture this element")
+  public async startElementCapture(options: Partial<ElementCaptureOptions> = {}, element?: Element | null) {
+    if (this.isCapturing || this.regionActive) return
+    const { padding, mask } = { ...this.settings.element, ...options }
+    const el = element && element.isConnected ? element : await this.pickElementInFrames()
+    if (!el) {
+      this.showNotification('Element capture cancelled', 'error')
+      return
+    }
+    // Measure before the highlight is gone; layout doesn't change from removing it
+    const { rect, box } = elementCaptureRect(el, Math.max(0, padding || 0))
+    const radii = pickedRadii(el)
+    await this.sleep(140)
+    try {
+      // Elements taller or wider than the viewport are stitched by the region path
+      const image = await this.captureRegion(rect)
+      if (!image) return
+      const result = await maskElementImage(image, box, radii, mask, this.outputFormat)
+      this.showResultOverlay('Element Screenshot', result, 'element')
+    } catch (err: any) {
+      console.error('Element capture failed:', err)
+      this.showNotification('Element capture failed: ' + err.message, 'error')
+    }
+  }
+
+  // Frames only take part while the picker is open; a picked frame element is then captured from the page
+  private async pickElementInFrames() {
+    const disconnectFrames = await connectFrames()
+    try {
+      return await pickElement()
+    } finally {
+      disconnectFrames()
+    }
+  }
+
+  // Every result is kept in the extension's capture history (stored by the background script)
+  private saveToHistory(image: Blob, mode: CaptureMode, id: string) {
+    try {
+      const message: ExtensionMessage = { action: 'save-capture', id, mode, url: location.href, title: document.title }
+      sendWithImages(message, [image]).catch(e => console.warn('Could not save capture to history', e))
+    } catch (e) {
+      console.warn('Could not save capture to history', e)
+    }
+  }
+
+  // One width of a responsive capture: the full-page pipeline without the result overlay
+  public async capturePageImage(requestId: string) {
+    try {
+      const parts = await this.captureFullPage(false)
+      if (parts) {
+        // Pages over the canvas limits are compared by their top part only
+        if (parts.length > 1) this.showNotification(`This width was too long for one image; only the top ${Math.round(parts[0].height).toLocaleString()} px are used`, 'info')
+        await sendWithImages({ action: 'page-image', requestId }, [parts[0].image])
+        return
+      }
+      chrome.runtime.sendMessage({ action: 'page-image-error', requestId, error: 'Capture cancelled' }).catch(() => {})
+    } catch(e:any) {
+      chrome.runtime.sendMessage({ action: 'page-image-error', requestId, error: e.message }).catch(() => {})
+    }
+  }
+
+  // Split captures are shown one part at a time, each with the redaction suggestions inside it
+  private showResultParts(titleText: string, parts: OutputPart[], mode: CaptureMode) {
+    const hints = this.redactionHints
+    const showPart = (i: number) => {
+      if (i >= parts.length) return
+      const part = parts[i]
+      this.redactionHints = hints && parts.length > 1
+        ? { rects: toCaptureRects(hints.rects, { x: 0, y: part.y }, { width: hints.width, height: part.height }), width: hints.width }
+        : hints
+      const title = parts.length > 1 ? `${titleText} (part ${i + 1} of ${parts.length})` : titleText
+      this.showResultOverlay(title, part.image, mode, () => showPart(i + 1))
+    }
+    showPart(0)
+  }
+
+  public async showResponsiveResult(frames: ResponsiveFrame[], error?: string) {
+    // Redaction suggestions were measured at the last width only
+    this.redactionHints = null
+    if (error) this.showNotification('Responsive capture: ' + error, frames.length ? 'info' : 'error')
+    if (!frames.length) return
+    if (this.settings.responsive.layout === 'composite') {
+      try {
+        this.showResultOverlay('Responsive Screenshot', await composeSideBySide(frames, this.outputFormat), 'responsive')
+      } catch(e:any) {
+        this.showNotification('Could not combine responsive captures: ' + e.message, 'error')
+      }
+      return
+    }
+    // One overlay per width; closing one opens the next
+    const showFrame = (i: number) => {
+      if (i < frames.length) this.showResultOverlay(`${frames[i].label} (${i + 1}/${frames.length})`, frames[i].image, 'responsive', () => showFrame(i + 1))
+    }
+    showFrame(0)
   }
 
   public async captureVisibleAreaOverlay(): Promise<void> {
     if (this.isCapturing) return
     this.isCapturing = true
     this.screenshots = []
+    this.collectRedactionHints(document.body, { x: window.scrollX, y: window.scrollY }, { width: window.innerWidth, height: window.innerHeight })
     try {
       await this.captureCurrentView(window.scrollX, window.scrollY)
       if (this.screenshots.length) {
-        const dataUrl = this.screenshots[0].dataUrl
-        this.showResultOverlay('Visible Area Screenshot', dataUrl, 'visible-area-screenshot')
+        const image = await this.encodeForOutput(this.screenshots[0].image)
+        this.showResultOverlay('Visible Area Screenshot', image, 'visible')
       }
     } catch(e:any) {
       this.showNotification('Visible area capture failed: '+ e.message, 'error')
@@ -1326,8 +1702,23 @@ class FullPageScreenshot {
 // Create instance and listen for messages
 const screenshotHandler = new FullPageScreenshot()
 
+// Reports of the frame agents (contents/frame-agent.ts) while a picker or frame capture runs
+trackFrames()
+
+// Capture options come from the synced settings and follow changes made while the page is open
+getSettings().then(settings => screenshotHandler.applySettings(settings)).catch(e => console.warn('Could not load settings', e))
+onSettingsChanged(settings => screenshotHandler.applySettings(settings))
+
+// Element under the cursor for the context menu's "Capture this element"
+let lastContextMenuTarget: Element | null = null
+document.addEventListener('contextmenu', (e) => {
+  lastContextMenuTarget = e.target instanceof Element ? e.target : null
+}, true)
+
 // Listen for messages from background script
-chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+chrome.runtime.onMessage.addListener((message: ExtensionMessage, sender, sendResponse) => {
+  // Frame traffic is handled by lib/frames.ts and too chatty to log
+  if (message.action === "frame-command" || message.action === "frame-report") return
   console.log("Content script received message:", message)
 
   if (message.action === "capture-full-page") {
@@ -1338,19 +1729,73 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     } catch (e) {
       // Popup might be closed, that's ok
     }
-    screenshotHandler.captureFullPage(true) // Enable clipboard copying
+    screenshotHandler.captureFullPage(true, { engine: message.engine }) // Enable clipboard copying
   } else if (message.action === "capture-visible-area") {
     console.log("Starting visible area capture...")
     screenshotHandler.captureVisibleAreaOverlay()
   } else if (message.action === 'capture-region') {
     console.log('Starting region selection mode...')
     screenshotHandler.startRegionSelection()
+  } else if (message.action === 'capture-element') {
+    console.log('Starting element picker...')
+    screenshotHandler.startElementCapture({}, message.contextTarget ? lastContextMenuTarget : null)
+  } else if (message.action === 'capture-scroll-container') {
+    console.log('Starting scroll container selection...')
+    screenshotHandler.startScrollContainerCapture()
+  } else if (message.action === "copy-page-image") {
+    const target = lastContextMenuTarget
+    readPageImage(message.srcUrl, target)
+      .then(blob => sendWithImages({ action: 'copy-to-clipboard' }, [blob]))
+      .then(() => sendResponse(true))
+      .catch(error => {
+        console.warn('Could not read the image in the page:', error)
+        sendResponse(false)
+      })
+    return true
   } else if (message.action === "clipboard-success") {
     console.log("Clipboard copy successful:", message.message)
     screenshotHandler.showNotification(message.message, "success")
   } else if (message.action === "clipboard-error") {
     console.log("Clipboard copy failed:", message.error)
-    screenshotHandler.showNotification("Please click the extension icon and use 'Quick Capture' button for clipboard access", "error")
+    screenshotHandler.showNotification(message.error || "Clipboard access failed", "error")
+  } else if (message.action === 'capture-page-image') {
+    screenshotHandler.capturePageImage(message.requestId)
+  } else if (message.action === 'responsive-result') {
+    // Only sent here when the transfer port is gone, with the error and no frames
+    screenshotHandler.showResponsiveResult([], message.error)
+  } else if (message.action === "download-result") {
+    if (message.success) screenshotHandler.showNotification(`Saved ${message.filename}`, "success")
+    else screenshotHandler.showNotification("Download failed: " + (message.error || "unknown error"), "error")
+  }
+})
+
+// The image behind a context-menu click, loaded like the page loads it. Cross-origin images
+// without CORS can't be read from here at all and are left to the background.
+async function readPageImage(srcUrl: string, target: Element | null): Promise<Blob> {
+  try {
+    const response = await fetch(srcUrl, { credentials: 'include' })
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    const blob = await response.blob()
+    if (!blob.type.startsWith('image/')) throw new Error(`Not an image (${blob.type || 'unknown type'})`)
+    return blob
+  } catch (error) {
+    // The decoded <img> still works when it was loaded with CORS
+    if (!(target instanceof HTMLImageElement) || !target.complete || !target.naturalWidth) throw error
+    const canvas = document.createElement('canvas')
+    canvas.width = target.naturalWidth
+    canvas.height = target.naturalHeight
+    canvas.getContext('2d')!.drawImage(target, 0, 0)
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+    if (!blob) throw error
+    return blob
+  }
+}
+
+// Results that carry images come over the transfer port
+onImageMessage(async (message, images) => {
+  if (message.action === 'responsive-result') {
+    const frames = message.frames.map((frame, i) => ({ ...frame, image: images[i] }))
+    screenshotHandler.showResponsiveResult(frames, message.error)
   }
 })
 
@@ -1358,6 +1803,11 @@ console.log("Screenshot handler content script loaded")
 
 export {}
 
+function isRateLimitError(error: any): boolean {
+  const message: string = error?.message || ''
+  return message.includes('MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND') || message.includes('rate limit')
+}
+
 // Utility to hide progress overlay elements during a capture so they are not included in bitmaps.
 function getProgressElements(): HTMLElement[] {
   return Array.from(document.querySelectorAll('[data-screenshot-progress]')) as HTMLElement[]
@@ -0,0 +1,434 @@
+// Annotation editor shown over the page for a captured image.
+// Shapes are kept as data (not pixels) so undo/redo is just list manipulation;
+// the flattened image is only produced when the user clicks Done.
+
+import { DEFAULT_OUTPUT_FORMAT, encodeCanvas, type OutputFormat } from "~lib/image-format"
+import { applyRedaction, type RedactionHints, type RedactionStyle, type Rect } from "~lib/redaction"
+
+export type Tool = "arrow" | "rect" | "ellipse" | "pen" | "text" | "step" | "highlighter" | "pixelate" | "fill"
+
+export interface AnnotationEditorOptions {
+  output?: OutputFormat
+  tool?: Tool
+  // Auto-detected sensitive areas offered as one-click redactions
+  redactions?: RedactionHints | null
+}
+
+interface P {
+  x: number
+  y: number
+}
+
+type Shape =
+  | { kind: "arrow" | "rect" | "ellipse"; color: string; width: number; from: P; to: P }
+  | { kind: "pen" | "highlighter"; color: string; width: number; points: P[] }
+  | { kind: "text"; color: string; size: number; at: P; text: string }
+  | { kind: "step"; color: string; size: number; at: P; n: number }
+  | { kind: "redact"; style: RedactionStyle; rects: Rect[] }
+
+const TOOLS: { tool: Tool; label: string; title: string }[] = [
+  { tool: "arrow", label: "↗", title: "Arrow (A)" },
+  { tool: "rect", label: "▭", title: "Rectangle (R)" },
+  { tool: "ellipse", label: "◯", title: "Ellipse (E)" },
+  { tool: "pen", label: "✎", title: "Pen (P)" },
+  { tool: "highlighter", label: "▬", title: "Highlighter (H)" },
+  { tool: "text", label: "T", title: "Text (T)" },
+  { tool: "step", label: "①", title: "Numbered step (N)" },
+  { tool: "pixelate", label: "▦", title: "Pixelate area (X)" },
+  { tool: "fill", label: "■", title: "Black out area (B)" }
+]
+
+const TOOL_KEYS: Record<string, Tool> = { a: "arrow", r: "rect", e: "ellipse", p: "pen", h: "highlighter", t: "text", n: "step", x: "pixelate", b: "fill" }
+
+const COLORS = ["#ef4444", "#f59e0b", "#22c55e", "#3b82f6", "#a855f7", "#111111", "#ffffff"]
+
+const rectBetween = (a: P, b: P): Rect => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(b.x - a.x),
+  height: Math.abs(b.y - a.y)
+})
+
+// `source` is the original capture, needed for pixelation
+function drawShape(ctx: CanvasRenderingContext2D, shape: Shape, source: CanvasImageSource) {
+  if (shape.kind === "redact") {
+    shape.rects.forEach((r) => applyRedaction(ctx, source, r, shape.style))
+    return
+  }
+  ctx.save()
+  ctx.lineCap = "round"
+  ctx.lineJoin = "round"
+  switch (shape.kind) {
+    case "rect": {
+      ctx.strokeStyle = shape.color
+      ctx.lineWidth = shape.width
+      ctx.strokeRect(shape.from.x, shape.from.y, shape.to.x - shape.from.x, shape.to.y - shape.from.y)
+      break
+    }
+    case "ellipse": {
+      ctx.strokeStyle = shape.color
+      ctx.lineWidth = shape.width
+      ctx.beginPath()
+      ctx.ellipse(
+        (shape.from.x + shape.to.x) / 2,
+        (shape.from.y + shape.to.y) / 2,
+        Math.abs(shape.to.x - shape.from.x) / 2,
+        Math.abs(shape.to.y - shape.from.y) / 2,
+        0,
+        0,
+        Math.PI * 2
+      )
+      ctx.stroke()
+      break
+    }
+    case "arrow": {
+      const { from, to } = shape
+      const angle = Math.atan2(to.y - from.y, to.x - from.x)
+      const head = Math.max(10, shape.width * 4)
+      ctx.strokeStyle = shape.color
+      ctx.fillStyle = shape.color
+      ctx.lineWidth = shape.width
+      ctx.beginPath()
+      ctx.moveTo(from.x, from.y)
+      // Stop the shaft inside the head so the tip stays sharp
+      ctx.lineTo(to.x - Math.cos(angle) * head * 0.8, to.y - Math.sin(angle) * head * 0.8)
+      ctx.stroke()
+      ctx.beginPath()
+      ctx.moveTo(to.x, to.y)
+      ctx.lineTo(to.x - head * Math.cos(angle - Math.PI / 7), to.y - head * Math.sin(angle - Math.PI / 7))
+      ctx.lineTo(to.x - head * Math.cos(angle + Math.PI / 7), to.y - head * Math.sin(angle + Math.PI / 7))
+      ctx.closePath()
+      ctx.fill()
+      break
+    }
+    case "pen":
+    case "highlighter": {
+      if (shape.kind === "highlighter") {
+        ctx.globalAlpha = 0.35
+        ctx.globalCompositeOperation = "multiply"
+        ctx.lineCap = "square"
+      }
+      ctx.strokeStyle = shape.color
+      ctx.lineWidth = shape.width
+      ctx.beginPath()
+      shape.points.forEach((p, i) => (i ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y)))
+      ctx.stroke()
+      break
+    }
+    case "text": {
+      ctx.font = `600 ${shape.size}px system-ui, -apple-system, Segoe UI, Roboto, sans-serif`
+      ctx.textBaseline = "top"
+      // Outline keeps labels readable on any background
+      ctx.lineWidth = Math.max(2, shape.size / 6)
+      ctx.strokeStyle = shape.color === "#ffffff" ? "#111111" : "#ffffff"
+      shape.text.split("\n").forEach((line, i) => {
+        ctx.strokeText(line, shape.at.x, shape.at.y + i * shape.size * 1.2)
+        ctx.fillStyle = shape.color
+        ctx.fillText(line, shape.at.x, shape.at.y + i * shape.size * 1.2)
+      })
+      break
+    }
+    case "step": {
+      const r = shape.size
+      ctx.fillStyle = shape.color
+      ctx.beginPath()
+      ctx.arc(shape.at.x, shape.at.y, r, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.lineWidth = Math.max(2, r / 6)
+      ctx.strokeStyle = "#ffffff"
+      ctx.stroke()
+      ctx.fillStyle = shape.color === "#ffffff" ? "#111111" : "#ffffff"
+      ctx.font = `700 ${Math.round(r * 1.1)}px system-ui, -apple-system, Segoe UI, Roboto, sans-serif`
+      ctx.textAlign = "center"
+      ctx.textBaseline = "middle"
+      ctx.fillText(String(shape.n), shape.at.x, shape.at.y + r * 0.05)
+      break
+    }
+  }
+  ctx.restore()
+}
+
+/**
+ * Opens the editor for `image`. Resolves with the flattened image (encoded
+ * with `options.output`) when the user clicks Done, or null when they cancel.
+ */
+export async function openAnnotationEditor(image: Blob, options: AnnotationEditorOptions = {}): Promise<Blob | null> {
+  const img = await createImageBitmap(image)
+  const output = options.output || DEFAULT_OUTPUT_FORMAT
+
+  return new Promise((resolve) => {
+    let tool: Tool = "arrow"
+    let redactStyle: RedactionStyle = "pixelate"
+    let color = COLORS[0]
+    let strokeWidth = 4 // CSS px on screen; scaled to image pixels per shape
+    const shapes: Shape[] = []
+    const redoStack: Shape[] = []
+    let draft: Shape | null = null
+    let dragStart: P | null = null
+
+    const root = document.createElement("div")
+    root.style.cssText = "position:fixed;inset:0;z-index:2147483647;background:rgba(10,12,14,.92);display:flex;flex-direction:column;font-family:system-ui,-apple-system,Segoe UI,Roboto,sans-serif;color:#e7eaec;"
+
+    const toolbar = document.createElement("div")
+    toolbar.style.cssText = "display:flex;align-items:center;gap:6px;padding:10px 14px;background:#111416;border-bottom:1px solid #1e2429;flex-wrap:wrap;"
+    const btnCss = "background:#151b20;border:1px solid #232a30;border-radius:8px;color:#e7eaec;font-size:13px;min-width:34px;height:32px;padding:0 10px;cursor:pointer;"
+    const mkBtn = (label: string, title: string, onClick: () => void) => {
+      const b = document.createElement("button")
+      b.textContent = label
+      b.title = title
+      b.style.cssText = btnCss
+      b.onclick = onClick
+      return b
+    }
+    const sep = () => {
+      const d = document.createElement("div")
+      d.style.cssText = "width:1px;height:22px;background:#232a30;margin:0 4px;"
+      return d
+    }
+
+    const toolButtons = new Map<Tool, HTMLButtonElement>()
+    const selectTool = (next: Tool) => {
+      tool = next
+      if (next === "pixelate" || next === "fill") redactStyle = next
+      toolButtons.forEach((b, t) => (b.style.background = t === tool ? "#2563eb" : "#151b20"))
+      stage.style.cursor = tool === "text" ? "text" : "crosshair"
+    }
+    TOOLS.forEach(({ tool: t, label, title }) => {
+      const b = mkBtn(label, title, () => selectTool(t))
+      toolButtons.set(t, b)
+      toolbar.append(b)
+    })
+    toolbar.append(sep())
+
+    const swatches: HTMLButtonElement[] = []
+    COLORS.forEach((c) => {
+      const b = mkBtn("", c, () => {
+        color = c
+        swatches.forEach((s) => (s.style.outline = s.title === color ? "2px solid #e7eaec" : "none"))
+      })
+      b.style.cssText = `width:22px;height:22px;border-radius:50%;border:1px solid #232a30;background:${c};cursor:pointer;padding:0;outline-offset:2px;`
+      swatches.push(b)
+      toolbar.append(b)
+    })
+    swatches[0].style.outline = "2px solid #e7eaec"
+
+    const widthInput = document.createElement("input")
+    widthInput.type = "range"
+    widthInput.min = "1"
+    widthInput.max = "16"
+    widthInput.value = String(strokeWidth)
+    widthInput.title = "Stroke width"
+    widthInput.style.cssText = "width:90px;margin-left:6px;"
+    widthInput.oninput = () => (strokeWidth = Number(widthInput.value))
+    toolbar.append(widthInput, sep())
+
+    // Suggestions are applied as a single shape, so one undo removes them all
+    const hintScale = options.redactions?.width ? img.width / options.redactions.width : 1
+    const suggested = (options.redactions?.rects || []).map((r) => ({
+      x: r.x * hintScale,
+      y: r.y * hintScale,
+      width: r.width * hintScale,
+      height: r.height * hintScale
+    }))
+    let suggestionShape: Shape | null = null
+    const autoBtn = mkBtn(`Auto-redact (${suggested.length})`, "Redact detected passwords, emails, phone numbers and configured selectors", () => {
+      suggestionShape = { kind: "redact", style: redactStyle, rects: suggested }
+      commit(suggestionShape)
+      renderDraft()
+    })
+    if (suggested.length) {
+      autoBtn.onmouseenter = () => {
+        if (autoBtn.disabled) return
+        liveCtx.save()
+        liveCtx.setLineDash([6 * pxScale(), 4 * pxScale()])
+        liveCtx.lineWidth = 2 * pxScale()
+        liveCtx.strokeStyle = "#f43f5e"
+        suggested.forEach((r) => liveCtx.strokeRect(r.x, r.y, r.width, r.height))
+        liveCtx.restore()
+      }
+      autoBtn.onmouseleave = () => renderDraft()
+      toolbar.append(autoBtn, sep())
+    }
+
+    const undoBtn = mkBtn("↶", "Undo (Ctrl+Z)", () => undo())
+    const redoBtn = mkBtn("↷", "Redo (Ctrl+Shift+Z)", () => redo())
+    const spacer = document.createElement("div")
+    spacer.style.cssText = "flex:1;"
+    const cancelBtn = mkBtn("Cancel", "Discard annotations (Esc)", () => finish(null))
+    const doneBtn = mkBtn("Done", "Apply annotations", () => {
+      encodeCanvas(flatten(), output).then(finish, (e) => {
+        console.error("Could not encode the annotated image:", e)
+        finish(null)
+      })
+    })
+    doneBtn.style.background = "#2563eb"
+    toolbar.append(undoBtn, redoBtn, spacer, cancelBtn, doneBtn)
+
+    // Scrollable stage; long full-page captures are shown at container width and scroll vertically
+    const stage = document.createElement("div")
+    stage.style.cssText = "flex:1;overflow:auto;display:flex;justify-content:center;align-items:flex-start;padding:18px;"
+    const holder = document.createElement("div")
+    holder.style.cssText = "position:relative;max-width:100%;box-shadow:0 6px 24px rgba(0,0,0,.45);"
+    const base = document.createElement("canvas")
+    base.width = img.width
+    base.height = img.height
+    base.style.cssText = "display:block;max-width:100%;height:auto;"
+    const live = document.createElement("canvas")
+    live.width = base.width
+    live.height = base.height
+    live.style.cssText = "position:absolute;inset:0;width:100%;height:100%;touch-action:none;"
+    holder.append(base, live)
+    stage.append(holder)
+    root.append(toolbar, stage)
+    document.body.appendChild(root)
+
+    const baseCtx = base.getContext("2d")!
+    const liveCtx = live.getContext("2d")!
+
+    const render = () => {
+      baseCtx.clearRect(0, 0, base.width, base.height)
+      baseCtx.drawImage(img, 0, 0)
+      shapes.forEach((s) => drawShape(baseCtx, s, img))
+      updateAutoBtn()
+      undoBtn.disabled = !shapes.length
+      redoBtn.disabled = !redoStack.length
+      undoBtn.style.opacity = undoBtn.disabled ? ".4" : "1"
+      redoBtn.style.opacity = redoBtn.disabled ? ".4" : "1"
+    }
+    const renderDraft = () => {
+      liveCtx.clearRect(0, 0, live.width, live.height)
+      if (draft) drawShape(liveCtx, draft, img)
+    }
+    const updateAutoBtn = () => {
+      autoBtn.disabled = !!suggestionShape && shapes.includes(suggestionShape)
+      autoBtn.style.opacity = autoBtn.disabled ? ".4" : "1"
+    }
+    const commit = (shape: Shape) => {
+      shapes.push(shape)
+      redoStack.length = 0
+      // Committed shapes are painted incrementally; full re-render only on undo/redo
+      drawShape(baseCtx, shape, img)
+      updateAutoBtn()
+      undoBtn.disabled = false
+      undoBtn.style.opacity = "1"
+      redoBtn.disabled = true
+      redoBtn.style.opacity = ".4"
+    }
+    const undo = () => {
+      const s = shapes.pop()
+      if (!s) return
+      redoStack.push(s)
+      render()
+    }
+    const redo = () => {
+      const s = redoStack.pop()
+      if (!s) return
+      shapes.push(s)
+      render()
+    }
+    const flatten = () => {
+      render()
+      return base
+    }
+
+    // Image pixels per screen pixel, so stroke widths look the same at any zoom
+    const pxScale = () => base.width / Math.max(1, live.getBoundingClientRect().width)
+    const toImage = (e: PointerEvent | MouseEvent): P => {
+      const r = live.getBoundingClientRect()
+      return { x: ((e.clientX - r.left) / r.width) * base.width, y: ((e.clientY - r.top) / r.height) * base.height }
+    }
+
+    const placeText = (at: P, e: MouseEvent) => {
+      const size = Math.round((12 + strokeWidth * 2) * pxScale())
+      const input = document.createElement("textarea")
+      input.rows = 1
+      input.placeholder = "Label…"
+      input.style.cssText = `position:fixed;left:${e.clientX}px;top:${e.clientY}px;z-index:2147483647;min-width:140px;background:rgba(17,20,22,.9);color:${color};border:1px dashed ${color};border-radius:4px;font:600 ${Math.round(size / pxScale())}px system-ui,sans-serif;padding:2px 4px;resize:none;outline:none;`
+      document.body.appendChild(input)
+      setTimeout(() => input.focus(), 0)
+      let done = false
+      const close = (keep: boolean) => {
+        if (done) return
+        done = true
+        const text = input.value.trimEnd()
+        input.remove()
+        if (keep && text) commit({ kind: "text", color, size, at, text })
+      }
+      input.onkeydown = (ev) => {
+        ev.stopPropagation()
+        if (ev.key === "Escape") close(false)
+        else if (ev.key === "Enter" && !ev.shiftKey) {
+          ev.preventDefault()
+          close(true)
+        }
+      }
+      input.onblur = () => close(true)
+    }
+
+    live.onpointerdown = (e) => {
+      if (e.button !== 0) return
+      const at = toImage(e)
+      const width = strokeWidth * pxScale()
+      if (tool === "text") {
+        placeText(at, e)
+        return
+      }
+      if (tool === "step") {
+        const n = shapes.filter((s) => s.kind === "step").length + 1
+        commit({ kind: "step", color, size: (10 + strokeWidth * 1.5) * pxScale(), at, n })
+        return
+      }
+      live.setPointerCapture(e.pointerId)
+      dragStart = at
+      if (tool === "pixelate" || tool === "fill") draft = { kind: "redact", style: tool, rects: [rectBetween(at, at)] }
+      else if (tool === "pen") draft = { kind: "pen", color, width, points: [at] }
+      else if (tool === "highlighter") draft = { kind: "highlighter", color, width: width * 4, points: [at] }
+      else draft = { kind: tool, color, width, from: at, to: at }
+      renderDraft()
+    }
+    live.onpointermove = (e) => {
+      if (!draft) return
+      const at = toImage(e)
+      if (draft.kind === "redact") draft.rects = [rectBetween(dragStart!, at)]
+      else if (draft.kind === "pen" || draft.kind === "highlighter") draft.points.push(at)
+      else if ("to" in draft) draft.to = at
+      renderDraft()
+    }
+    live.onpointerup = () => {
+      if (!draft) return
+      const shape = draft
+      draft = null
+      renderDraft()
+      // Ignore accidental clicks that produced no visible shape
+      const tiny =
+        ("to" in shape && Math.hypot(shape.to.x - shape.from.x, shape.to.y - shape.from.y) < 3) ||
+        (shape.kind === "redact" && (shape.rects[0].width < 3 || shape.rects[0].height < 3))
+      if (!tiny) commit(shape)
+    }
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      // The text label box handles its own keys
+      if (e.target instanceof HTMLTextAreaElement) return
+      e.stopPropagation()
+      const mod = e.ctrlKey || e.metaKey
+      if (e.key === "Escape") finish(null)
+      else if (mod && e.key.toLowerCase() === "z" && e.shiftKey) redo()
+      else if (mod && e.key.toLowerCase() === "z") undo()
+      else if (mod && e.key.toLowerCase() === "y") redo()
+      else if (!mod && TOOL_KEYS[e.key.toLowerCase()]) selectTool(TOOL_KEYS[e.key.toLowerCase()])
+      else return
+      e.preventDefault()
+    }
+    document.addEventListener("keydown", onKeyDown, true)
+
+    const finish = (result: Blob | null) => {
+      document.removeEventListener("keydown", onKeyDown, true)
+      root.remove()
+      img.close()
+      resolve(result)
+    }
+
+    selectTool(options.tool || "arrow")
+    render()
+  })
+}
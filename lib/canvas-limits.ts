@@ -0,0 +1,55 @@
+// Browser canvas size limits and splitting oversized captures into several images.
+// Past the limits Chrome fails to allocate the canvas, or toBlob returns null
+// without any error.
+
+export const MAX_CANVAS_SIDE = 32767 // px per side
+export const MAX_CANVAS_AREA = 268435456 // px in total (16384 x 16384)
+
+// A horizontal band of the capture, CSS px
+export interface OutputBand {
+  y: number
+  height: number
+}
+
+export interface OutputPlan {
+  width: number // CSS px, narrower than the capture if even one row of pixels is over the side limit
+  bands: OutputBand[]
+}
+
+// One encoded image of a capture that was split into bands
+export interface OutputPart {
+  image: Blob
+  y: number // CSS px from the top of the capture
+  height: number
+}
+
+/**
+ * Splits a `width` x `height` CSS px capture, drawn at `scale` device px per
+ * CSS px, into equal-height bands that each fit in one canvas.
+ */
+export function planOutputBands(width: number, height: number, scale: number): OutputPlan {
+  const maxWidth = Math.floor(MAX_CANVAS_SIDE / scale)
+  const clampedWidth = Math.min(width, maxWidth)
+  const maxBandHeight = Math.floor(Math.min(MAX_CANVAS_SIDE, MAX_CANVAS_AREA / Math.ceil(clampedWidth * scale)) / scale)
+  const count = Math.max(1, Math.ceil(height / maxBandHeight))
+  const bandHeight = Math.ceil(height / count)
+  const bands: OutputBand[] = []
+  for (let y = 0; y < height; y += bandHeight) {
+    bands.push({ y, height: Math.min(bandHeight, height - y) })
+  }
+  return { width: clampedWidth, bands: bands.length ? bands : [{ y: 0, height }] }
+}
+
+// Message for the user when the output had to be split or cropped, otherwise null
+export function describeOutputPlan(plan: OutputPlan, width: number, height: number): string | null {
+  const notes: string[] = []
+  if (plan.bands.length > 1) {
+    notes.push(
+      `The page is ${Math.round(height).toLocaleString()} px tall, more than one image can hold, so it was saved as ${plan.bands.length} images of up to ${Math.round(plan.bands[0].height).toLocaleString()} px each, top to bottom.`
+    )
+  }
+  if (plan.width < width) {
+    notes.push(`Only the left ${Math.round(plan.width).toLocaleString()} px of the ${Math.round(width).toLocaleString()} px wide page fit in an image.`)
+  }
+  return notes.length ? notes.join(" ") : null
+}
@@ -0,0 +1,190 @@
+// Content-script side of the capture request/response protocol.
+// Requests and their replies go over the transfer port, and every reply is
+// dispatched to the pending request with the matching requestId, so concurrent
+// captures (or two tiles at the same clamped scroll offset) can never resolve
+// each other's promise. Tiles and CDP captures come back as Blobs.
+
+import type { OutputPart } from "~lib/canvas-limits"
+import {
+  createRequestId,
+  type CdpCaptureRequest,
+  type CdpCaptureResponse,
+  type ExtensionMessage,
+  type MessageAction,
+  type TileRequest,
+  type TileResponse
+} from "~lib/messages"
+import type { Point } from "~lib/scroll-target"
+import { BlobPort, TRANSFER_PORT, type BlobMessageHandler } from "~lib/transfer"
+
+export interface RequestOptions {
+  timeoutMs?: number
+  signal?: AbortSignal
+}
+
+export interface CdpRequestOptions extends RequestOptions {
+  // Content height to stop at, CSS px (the warm-up's cap for infinite feeds)
+  maxHeight?: number
+}
+
+export interface TileImage extends TileResponse {
+  image: Blob
+}
+
+export interface CdpCapture extends Omit<CdpCaptureResponse, "parts"> {
+  parts: OutputPart[]
+}
+
+interface Received<T> {
+  message: T
+  images: Blob[]
+}
+
+interface PendingRequest {
+  resolve: (response: Received<ExtensionMessage>) => void
+  reject: (error: Error) => void
+  cleanup: () => void
+}
+
+const DEFAULT_TIMEOUT_MS = 30000 // Covers queueing plus the background scheduler's backoff retries
+const CDP_TIMEOUT_MS = 120000 // Attaching, rendering the whole document and stitching chunks
+const CDP_STOP_TIMEOUT_MS = 10000 // Detaching after a cancel; a render in progress ends with it
+
+// Reply actions, and whether each one resolves (true) or rejects with its `error`
+const REPLIES: Partial<Record<MessageAction, boolean>> = {
+  "screenshot-captured": true,
+  "screenshot-error": false,
+  "cdp-capture-result": true,
+  "cdp-capture-error": false
+}
+
+const pending = new Map<string, PendingRequest>()
+let transfer: BlobPort | null = null
+const imageListeners: BlobMessageHandler[] = []
+
+// True when `message` was a reply to a request made here
+function dispatch(message: ExtensionMessage, images: Blob[] = []): boolean {
+  const resolves = REPLIES[message?.action]
+  if (resolves === undefined || !("requestId" in message)) return false
+  const request = pending.get(message.requestId)
+  if (!request) return false
+  request.cleanup()
+  if (resolves) {
+    request.resolve({ message, images })
+  } else {
+    request.reject(new Error("error" in message ? message.error : "Capture failed"))
+  }
+  return true
+}
+
+function transferPort(): BlobPort {
+  if (transfer) return transfer
+  const port = chrome.runtime.connect({ name: TRANSFER_PORT })
+  const channel = new BlobPort(port, (message, images) => {
+    if (!dispatch(message, images)) imageListeners.forEach((listener) => listener(message, images))
+  })
+  port.onDisconnect.addListener(() => {
+    if (transfer === channel) transfer = null
+  })
+  transfer = channel
+  return channel
+}
+
+/** Sends `message` to the background with `images` attached, over the transfer port. */
+export async function sendWithImages(message: ExtensionMessage, images: Blob[] = []): Promise<void> {
+  try {
+    await transferPort().send(message, images)
+  } catch (_) {
+    // The background was restarted since the port was opened; one retry on a new port
+    transfer = null
+    await transferPort().send(message, images)
+  }
+}
+
+/** Messages with images sent by the background on its own (not replies to a request). */
+export function onImageMessage(listener: BlobMessageHandler) {
+  imageListeners.push(listener)
+}
+
+/**
+ * Sends `request` and resolves with its reply. With `stopTimeoutMs`, a cancelled or
+ * timed out request only rejects once the background confirms it has stopped (by
+ * sending its final reply), or after that long.
+ */
+function sendRequest<T extends ExtensionMessage>(
+  request: TileRequest | CdpCaptureRequest,
+  options: RequestOptions,
+  stopTimeoutMs = 0
+): Promise<Received<T>> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, signal } = options
+  const { requestId } = request
+
+  return new Promise<Received<T>>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Capture cancelled", "AbortError"))
+      return
+    }
+
+    const cancel = (error: Error) => {
+      cleanup()
+      try {
+        chrome.runtime.sendMessage({ action: "cancel-request", requestId })
+      } catch (_) {
+        // Extension context gone; nothing to cancel
+        reject(error)
+        return
+      }
+      if (!stopTimeoutMs) {
+        reject(error)
+        return
+      }
+      const stopped = () => {
+        clearTimeout(stopTimer)
+        pending.delete(requestId)
+        reject(error)
+      }
+      const stopTimer = setTimeout(stopped, stopTimeoutMs)
+      pending.set(requestId, { resolve: stopped, reject: stopped, cleanup: () => {} })
+    }
+    const onAbort = () => cancel(new DOMException("Capture cancelled", "AbortError"))
+    const timer = setTimeout(() => cancel(new Error("Screenshot capture timeout")), timeoutMs)
+    const cleanup = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener("abort", onAbort)
+      pending.delete(requestId)
+    }
+
+    signal?.addEventListener("abort", onAbort)
+    pending.set(requestId, { resolve: resolve as (response: Received<ExtensionMessage>) => void, reject, cleanup })
+
+    sendWithImages(request).catch(() => {
+      if (!pending.has(requestId)) return
+      cleanup()
+      reject(new Error("Extension context invalidated"))
+    })
+  })
+}
+
+/**
+ * Asks the background script to capture the visible tab. `scrollPosition` is
+ * only echoed back for logging; matching is done by request id.
+ */
+export async function requestTile(scrollPosition: Point, options: RequestOptions = {}): Promise<TileImage> {
+  const { message, images } = await sendRequest<TileResponse>({ action: "capture-tile", requestId: createRequestId(), scrollPosition }, options)
+  return { ...message, image: images[0] }
+}
+
+/**
+ * Asks the background script for a single-shot DevTools Protocol capture of the whole page.
+ * On cancel or timeout it only rejects once the debugger has detached, so a fallback
+ * capture never runs while the page is still laid out for the screenshot.
+ */
+export async function requestCdpCapture(options: CdpRequestOptions = {}): Promise<CdpCapture> {
+  const { maxHeight, ...requestOptions } = options
+  const { message, images } = await sendRequest<CdpCaptureResponse>(
+    { action: "capture-full-page-cdp", requestId: createRequestId(), maxHeight },
+    { timeoutMs: CDP_TIMEOUT_MS, ...requestOptions },
+    CDP_STOP_TIMEOUT_MS
+  )
+  return { ...message, parts: message.parts.map((band, i) => ({ ...band, image: images[i] })) }
+}
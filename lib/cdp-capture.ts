@@ -0,0 +1,103 @@
+// Single-shot full-page capture through the DevTools Protocol (background script only).
+// The browser renders the whole document at once, so sticky headers, scroll-linked
+// animations and virtualised lists look like they do at the top of the page.
+
+import { describeOutputPlan, planOutputBands, type OutputBand } from "~lib/canvas-limits"
+import { withDebugger, type SendCommand } from "~lib/debugger"
+import { base64ToBytes, mimeTypeFor, type OutputFormat } from "~lib/image-format"
+
+export type FullPageEngine = "stitch" | "cdp"
+
+export const DEFAULT_FULL_PAGE_ENGINE: FullPageEngine = "stitch"
+
+// GPU texture limit for a single screenshot, in device px per side
+const MAX_CHUNK_PX = 16384
+
+export interface CdpImage extends OutputBand {
+  blob: Blob
+}
+
+export interface CdpCaptureOptions {
+  // Content height to stop at (CSS px), the same cap the warm-up puts on infinite feeds
+  maxHeight?: number
+  // Detaches the debugger, which also stops a screenshot still being rendered
+  signal?: AbortSignal
+}
+
+export interface CdpCaptureResult {
+  parts: CdpImage[] // one image unless the page is over the canvas limits
+  width: number // CSS px of the captured document
+  height: number
+  notice?: string // how the output was split, for the user
+}
+
+interface Chunk {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+function planChunks(width: number, height: number, maxCss: number): Chunk[] {
+  const chunks: Chunk[] = []
+  for (let y = 0; y < height; y += maxCss) {
+    for (let x = 0; x < width; x += maxCss) {
+      chunks.push({ x, y, width: Math.min(maxCss, width - x), height: Math.min(maxCss, height - y) })
+    }
+  }
+  return chunks
+}
+
+async function captureChunk(send: SendCommand, chunk: Chunk, format: string, quality?: number): Promise<string> {
+  const { data } = await send("Page.captureScreenshot", {
+    format,
+    quality,
+    clip: { ...chunk, scale: 1 },
+    captureBeyondViewport: true,
+    fromSurface: true
+  })
+  return data
+}
+
+/**
+ * Captures the full document of `tabId`. Pages beyond the texture limit are taken
+ * in clip chunks and stitched on an OffscreenCanvas; pages beyond the canvas
+ * limits come back as several images, split into horizontal bands.
+ */
+export function captureFullPageCdp(tabId: number, output: OutputFormat, options: CdpCaptureOptions = {}): Promise<CdpCaptureResult> {
+  const { maxHeight, signal } = options
+  return withDebugger(tabId, async (send) => {
+    const metrics = await send("Page.getLayoutMetrics")
+    const size = metrics.cssContentSize || metrics.contentSize
+    const width = Math.ceil(size.width)
+    const height = Math.ceil(maxHeight ? Math.min(size.height, maxHeight) : size.height)
+    const { result } = await send("Runtime.evaluate", { expression: "window.devicePixelRatio", returnByValue: true })
+    const dpr = Number(result?.value) || 1
+    const maxChunkCss = Math.floor(MAX_CHUNK_PX / dpr)
+    const plan = planOutputBands(width, height, dpr)
+    const notice = describeOutputPlan(plan, width, height) || undefined
+
+    // One chunk: let the browser encode the output format directly
+    signal?.throwIfAborted()
+    if (width <= maxChunkCss && height <= maxChunkCss) {
+      const quality = output.format === "png" ? undefined : Math.round(output.quality * 100)
+      const data = await captureChunk(send, { x: 0, y: 0, width, height }, output.format, quality)
+      return { parts: [{ blob: new Blob([base64ToBytes(data)], { type: mimeTypeFor(output.format) }), y: 0, height }], width, height }
+    }
+
+    const parts: CdpImage[] = []
+    for (const band of plan.bands) {
+      const canvas = new OffscreenCanvas(Math.round(plan.width * dpr), Math.round(band.height * dpr))
+      const ctx = canvas.getContext("2d")!
+      for (const chunk of planChunks(plan.width, band.height, maxChunkCss)) {
+        signal?.throwIfAborted()
+        const data = await captureChunk(send, { ...chunk, y: band.y + chunk.y }, "png")
+        const bitmap = await createImageBitmap(new Blob([base64ToBytes(data)], { type: "image/png" }))
+        ctx.drawImage(bitmap, Math.round(chunk.x * dpr), Math.round(chunk.y * dpr))
+        bitmap.close()
+      }
+      parts.push({ blob: await canvas.convertToBlob({ type: mimeTypeFor(output.format), quality: output.quality }), ...band })
+    }
+    return { parts, width, height, notice }
+  }, signal)
+}
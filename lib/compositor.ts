@@ -0,0 +1,97 @@
+// Tile planning and compositing for scroll-and-stitch captures
+
+import type { OutputBand } from "~lib/canvas-limits"
+import type { DrawOp, StitchJob } from "~lib/stitcher"
+
+export interface ScreenshotData {
+  image: Blob // decoded once on arrival and dropped once composited
+  // Scroll offset the tile was actually captured at (after browser clamping), CSS px
+  scrollPosition: { x: number; y: number }
+  // Size of the captured content area (scrollbars excluded), CSS px
+  viewportHeight: number
+  viewportWidth: number
+  // Device pixels per CSS pixel in the captured bitmap
+  devicePixelRatio: number
+  // Where the content area starts inside the captured bitmap, CSS px (inner scroll containers)
+  clipOffset?: { x: number; y: number }
+}
+
+/**
+ * Scroll offsets needed to cover `pageSize` with windows of `viewportSize`.
+ * The last offset is clamped to the maximum scroll position, so the final
+ * tile overlaps the previous one instead of asking for an unreachable offset.
+ */
+export function planScrollPositions(
+  pageSize: number,
+  viewportSize: number
+): number[] {
+  const maxScroll = Math.max(0, pageSize - viewportSize)
+  const positions: number[] = []
+  for (let pos = 0; pos < pageSize; pos += viewportSize) {
+    positions.push(Math.min(pos, maxScroll))
+    if (pos >= maxScroll) break
+  }
+  return positions.length ? positions : [0]
+}
+
+// Bottom-right corner covered by the given tiles, CSS px (used to trim partial captures)
+export function capturedExtent(tiles: ScreenshotData[]): { width: number; height: number } {
+  let width = 0
+  let height = 0
+  for (const t of tiles) {
+    width = Math.max(width, t.scrollPosition.x + t.viewportWidth)
+    height = Math.max(height, t.scrollPosition.y + t.viewportHeight)
+  }
+  return { width, height }
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error("Could not decode captured tile"))
+    img.src = src
+  })
+}
+
+// Device px per CSS px of the stitched output: the sharpest tile wins
+export function outputScale(tiles: ScreenshotData[]): number {
+  return tiles.reduce((max, t) => Math.max(max, t.devicePixelRatio || 1), 1)
+}
+
+/**
+ * Where each tile goes in a stitched image sized to the full page in device
+ * pixels, or to `band` of it (see planOutputBands) when the page is too large
+ * for one canvas. Tiles overlapping at clamped edges simply overwrite identical
+ * content.
+ */
+export function planTileDraws(
+  tiles: ScreenshotData[],
+  pageWidth: number,
+  pageHeight: number,
+  band: OutputBand = { y: 0, height: pageHeight }
+): StitchJob {
+  const scale = outputScale(tiles)
+  const draws: DrawOp[] = []
+
+  for (const tile of tiles) {
+    if (tile.scrollPosition.y >= band.y + band.height || tile.scrollPosition.y + tile.viewportHeight <= band.y) continue
+    const tileScale = tile.devicePixelRatio || 1
+    // Only the content area is used, which drops the scrollbar strip on the right/bottom
+    const sw = Math.round(tile.viewportWidth * tileScale)
+    const sh = Math.round(tile.viewportHeight * tileScale)
+    draws.push({
+      image: tile.image,
+      sx: Math.round((tile.clipOffset?.x || 0) * tileScale),
+      sy: Math.round((tile.clipOffset?.y || 0) * tileScale),
+      sw,
+      sh,
+      dx: Math.round(tile.scrollPosition.x * scale),
+      dy: Math.round((tile.scrollPosition.y - band.y) * scale),
+      dw: Math.round((sw / tileScale) * scale),
+      dh: Math.round((sh / tileScale) * scale)
+    })
+  }
+
+  return { width: Math.round(pageWidth * scale), height: Math.round(band.height * scale), draws }
+}
@@ -0,0 +1,52 @@
+// chrome.debugger sessions for DevTools Protocol features (background script only)
+
+const PROTOCOL_VERSION = "1.3"
+
+interface Size {
+  width: number
+  height: number
+}
+
+// Results of the protocol methods read here; anything else resolves to unknown
+interface CommandResults {
+  "Page.getLayoutMetrics": { contentSize: Size; cssContentSize?: Size }
+  "Page.captureScreenshot": { data: string }
+  "Runtime.evaluate": { result?: { value?: unknown } }
+}
+
+export type SendCommand = <M extends string>(
+  method: M,
+  params?: Record<string, unknown>
+) => Promise<M extends keyof CommandResults ? CommandResults[M] : unknown>
+
+// Tabs with an open session; a tab can only have one debugger attached, so nested users share it
+const sessions = new Map<number, SendCommand>()
+
+/**
+ * Runs `fn` with the debugger attached to `tabId`, detaching afterwards (also when
+ * `fn` throws). If the tab already has a session, e.g. device emulation around a
+ * full-page capture, `fn` joins it and the outer caller detaches.
+ * Aborting `signal` detaches at once, which also ends a command still running;
+ * a joined session is left to its owner.
+ * Chrome shows its "started debugging this browser" bar while attached.
+ */
+export async function withDebugger<T>(tabId: number, fn: (send: SendCommand) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  const existing = sessions.get(tabId)
+  if (existing) return fn(existing)
+
+  signal?.throwIfAborted()
+  const target: chrome.debugger.Debuggee = { tabId }
+  const send = ((method: string, params?: Record<string, unknown>) => chrome.debugger.sendCommand(target, method, params)) as SendCommand
+  await chrome.debugger.attach(target, PROTOCOL_VERSION)
+  sessions.set(tabId, send)
+  // Fails if the user dismissed the debugging bar, which already detached us
+  const detach = () => chrome.debugger.detach(target).catch(() => {})
+  signal?.addEventListener("abort", detach)
+  try {
+    return await fn(send)
+  } finally {
+    signal?.removeEventListener("abort", detach)
+    sessions.delete(tabId)
+    await detach()
+  }
+}
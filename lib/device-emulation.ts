@@ -0,0 +1,28 @@
+// Viewport emulation through the Chrome DevTools Protocol (background script only)
+
+import { withDebugger, type SendCommand } from "~lib/debugger"
+import type { DevicePreset } from "~lib/responsive"
+
+/**
+ * Runs `fn` with the debugger attached to `tabId`; `emulate` switches the viewport to
+ * a preset. The metrics override is cleared afterwards, also when `fn` throws.
+ */
+export function withDeviceEmulation<T>(tabId: number, fn: (emulate: (preset: DevicePreset) => Promise<void>) => Promise<T>): Promise<T> {
+  return withDebugger(tabId, async (send) => {
+    try {
+      return await fn((preset) => emulate(send, preset))
+    } finally {
+      // Fails if the debugger was detached meanwhile, which drops the override anyway
+      await send("Emulation.clearDeviceMetricsOverride").catch(() => {})
+    }
+  })
+}
+
+async function emulate(send: SendCommand, preset: DevicePreset) {
+  await send("Emulation.setDeviceMetricsOverride", {
+    width: preset.width,
+    height: preset.height,
+    deviceScaleFactor: 0, // keep the screen's pixel ratio
+    mobile: preset.mobile
+  })
+}
@@ -0,0 +1,105 @@
+// File names for saved captures and the chrome.downloads call (background / extension pages only)
+
+import type { CaptureMode } from "~lib/history"
+
+export interface DownloadOptions {
+  template: string // file name without extension, see FILENAME_TOKENS
+  subfolder: string // relative to the browser's download directory, tokens allowed
+  saveAs: boolean // show the "Save as" dialog for every download
+}
+
+export const DEFAULT_DOWNLOAD_OPTIONS: DownloadOptions = {
+  template: "{prefix}-{date}-{time}",
+  subfolder: "",
+  saveAs: false
+}
+
+export const FILENAME_TOKENS = ["{prefix}", "{mode}", "{domain}", "{title}", "{date}", "{time}", "{width}", "{height}"] as const
+
+export interface FilenameContext {
+  prefix: string // per-mode file name prefix from the settings
+  mode: CaptureMode
+  url: string
+  title: string
+  width: number
+  height: number
+  capturedAt: Date
+}
+
+// Windows is the strictest target: reserved characters, trailing dots and device names
+const ILLEGAL_CHARS = /[<>:"/\\|?*\u0000-\u001f\u007f]+/g
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/i
+const MAX_NAME_LENGTH = 150
+
+const pad = (n: number) => String(n).padStart(2, "0")
+
+function sanitizeSegment(segment: string): string {
+  const clean = segment.replace(ILLEGAL_CHARS, "_").replace(/\s+/g, " ").trim().replace(/^[.\s]+|[.\s]+$/g, "")
+  return RESERVED_NAMES.test(clean) ? `_${clean}` : clean.slice(0, MAX_NAME_LENGTH)
+}
+
+const domainOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "")
+  } catch (_) {
+    return ""
+  }
+}
+
+function expandTokens(template: string, ctx: FilenameContext): string {
+  const d = ctx.capturedAt
+  const values: Record<string, string> = {
+    prefix: ctx.prefix,
+    mode: ctx.mode,
+    domain: domainOf(ctx.url) || "page",
+    title: ctx.title || "untitled",
+    date: `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`,
+    time: `${pad(d.getHours())}-${pad(d.getMinutes())}-${pad(d.getSeconds())}`,
+    width: String(Math.round(ctx.width)),
+    height: String(Math.round(ctx.height))
+  }
+  // Unknown tokens are kept as typed
+  return template.replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token)
+}
+
+export function renderFilename(template: string, ctx: FilenameContext): string {
+  return sanitizeSegment(expandTokens(template, ctx)) || sanitizeSegment(ctx.prefix) || "screenshot"
+}
+
+/**
+ * Path relative to the download directory, e.g. `Screenshots/example.com/page-2024-05-01.png`.
+ * Tokens work in the subfolder too; they are expanded per segment, so a "/" in a title
+ * can't create extra folders.
+ */
+export function downloadPath(options: DownloadOptions, ctx: FilenameContext, extension: string): string {
+  const folders = options.subfolder
+    .split(/[/\\]+/)
+    .map((part) => sanitizeSegment(expandTokens(part, ctx))) // ".." and "." trim to nothing
+    .filter(Boolean)
+  return [...folders, `${renderFilename(options.template, ctx)}.${extension}`].join("/")
+}
+
+/** Starts a download and resolves with its id; name conflicts get a " (1)" suffix. */
+export function startDownload(url: string, filename: string, saveAs: boolean): Promise<number> {
+  return chrome.downloads.download({ url, filename, saveAs, conflictAction: "uniquify" })
+}
+
+/** Resolves once Chrome has finished (or given up on) download `id`, or after `timeoutMs`. */
+export function waitForDownload(id: number, timeoutMs: number): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer)
+      chrome.downloads.onChanged.removeListener(onChanged)
+      resolve()
+    }
+    const onChanged = (delta: chrome.downloads.DownloadDelta) => {
+      if (delta.id === id && delta.state && delta.state.current !== "in_progress") done()
+    }
+    const timer = setTimeout(done, timeoutMs)
+    chrome.downloads.onChanged.addListener(onChanged)
+    // It may have finished before the listener was added
+    chrome.downloads.search({ id }).then(([item]) => {
+      if (!item || item.state !== "in_progress") done()
+    }, done)
+  })
+}
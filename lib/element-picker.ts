@@ -0,0 +1,246 @@
+// Element capture: picking a DOM element on the page and shaping the captured image around it
+
+import { frameViewportOrigin, movePickInFrame, startFramePicking, type FrameHit } from "~lib/frames"
+import { encodeCanvas, type OutputFormat } from "~lib/image-format"
+import type { Rect } from "~lib/redaction"
+
+export type ElementMask = "none" | "transparent" | "rounded"
+
+export interface ElementCaptureOptions {
+  padding: number // CSS px around the element
+  mask: ElementMask
+}
+
+export const DEFAULT_ELEMENT_CAPTURE: ElementCaptureOptions = { padding: 0, mask: "none" }
+
+// An element inside an iframe, as reported by the frame's agent at pick time
+export interface FramePick {
+  iframe: HTMLIFrameElement
+  hit: FrameHit
+}
+
+export type PickedElement = Element | FramePick
+
+// Corner radius used by the rounded mask when the element itself is square
+const MIN_ROUNDED_RADIUS = 8
+
+export function describeElement(el: Element): string {
+  const classes = Array.from(el.classList).slice(0, 3).map((c) => "." + c).join("")
+  const id = el.id ? "#" + el.id : ""
+  const r = el.getBoundingClientRect()
+  return `${el.tagName.toLowerCase()}${id}${classes} · ${Math.round(r.width)} × ${Math.round(r.height)}`
+}
+
+/**
+ * Lets the user pick an element: hover highlights it, ↑/↓ move to the
+ * parent/child, ←/→ to siblings, click or Enter picks, Esc resolves null.
+ * Elements inside iframes with a frame agent can be picked too.
+ */
+export function pickElement(): Promise<PickedElement | null> {
+  return new Promise((resolve) => {
+    const box = document.createElement("div")
+    box.style.cssText = "position:fixed;z-index:2147483646;pointer-events:none;border:2px solid #2563eb;background:rgba(37,99,235,.10);border-radius:2px;display:none;"
+    const label = document.createElement("div")
+    label.style.cssText = "position:absolute;left:-2px;top:-2px;transform:translateY(-100%);padding:3px 7px;background:#2563eb;color:#fff;font:12px/1.3 system-ui,sans-serif;border-radius:4px 4px 0 0;white-space:nowrap;max-width:80vw;overflow:hidden;text-overflow:ellipsis;"
+    box.appendChild(label)
+    const hint = document.createElement("div")
+    hint.textContent = "Click or Enter to capture · ↑ parent · ↓ child · ← → siblings · Esc to cancel"
+    hint.style.cssText = "position:fixed;left:50%;bottom:16px;transform:translateX(-50%);z-index:2147483647;pointer-events:none;padding:7px 12px;background:rgba(17,20,22,.92);color:#e7eaec;font:12px/1.3 system-ui,sans-serif;border-radius:8px;box-shadow:0 2px 8px rgba(0,0,0,.3);"
+    document.body.append(box, hint)
+
+    let current: Element | null = null
+    // Set while the highlighted element is inside `current`, an iframe
+    let inFrame: FramePick | null = null
+    // Elements left by ↑, so ↓ returns along the same path instead of always taking the first child
+    let descent: Element[] = []
+
+    const showBox = (r: Rect, text: string) => {
+      box.style.display = "block"
+      box.style.left = r.x + "px"
+      box.style.top = r.y + "px"
+      box.style.width = r.width + "px"
+      box.style.height = r.height + "px"
+      // Keep the label on screen for elements touching the top edge
+      label.style.transform = r.y < 24 ? "none" : "translateY(-100%)"
+      label.textContent = text
+    }
+    const highlight = (el: Element | null) => {
+      current = el
+      inFrame = null
+      if (!el) {
+        box.style.display = "none"
+        return
+      }
+      const r = el.getBoundingClientRect()
+      showBox({ x: r.left, y: r.top, width: r.width, height: r.height }, describeElement(el))
+    }
+    const highlightInFrame = (iframe: HTMLIFrameElement, hit: FrameHit) => {
+      current = iframe
+      inFrame = { iframe, hit }
+      const origin = frameViewportOrigin(iframe)
+      showBox({ ...hit.rect, x: origin.x + hit.rect.x, y: origin.y + hit.rect.y }, hit.label)
+    }
+    const picked = (): PickedElement | null => inFrame || current
+
+    // Pointer events inside iframes never reach this document; their agents forward them
+    const stopFramePicking = startFramePicking("element", (iframe, report) => {
+      if (report.type === "pick-hover") {
+        descent = []
+        if (report.hit) highlightInFrame(iframe, report.hit)
+        else highlight(iframe)
+      } else if (report.type === "pick-click") {
+        if (picked()) finish(picked())
+      } else if (report.type === "pick-key") {
+        handleKey(report.key)
+      }
+    })
+
+    const finish = (el: PickedElement | null) => {
+      stopFramePicking()
+      document.removeEventListener("mousemove", onMove, true)
+      document.removeEventListener("mousedown", swallow, true)
+      document.removeEventListener("mouseup", swallow, true)
+      document.removeEventListener("click", onClick, true)
+      document.removeEventListener("keydown", onKey, true)
+      box.remove()
+      hint.remove()
+      resolve(el)
+    }
+    const swallow = (e: MouseEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+    }
+    const onMove = (e: MouseEvent) => {
+      const el = document.elementFromPoint(e.clientX, e.clientY)
+      if (el && el !== current && el !== document.documentElement) {
+        descent = []
+        highlight(el)
+      }
+    }
+    const onClick = (e: MouseEvent) => {
+      swallow(e)
+      if (current) finish(picked())
+    }
+    // True when the key was used
+    const handleKey = (key: string): boolean => {
+      let next: Element | null | undefined
+      if (key === "Escape") {
+        finish(null)
+        return true
+      } else if (key === "Enter" && current) {
+        finish(picked())
+        return true
+      } else if (!current || !key.startsWith("Arrow")) {
+        return false
+      } else if (inFrame) {
+        // The agent moves within the frame's document and reports the new element back
+        movePickInFrame(inFrame.iframe, key)
+        return true
+      } else if (key === "ArrowUp") {
+        next = current.parentElement !== document.documentElement ? current.parentElement : null
+        if (next) descent.push(current)
+      } else if (key === "ArrowDown") {
+        next = descent.pop() || current.firstElementChild
+      } else if (key === "ArrowLeft") {
+        next = current.previousElementSibling
+        descent = []
+      } else if (key === "ArrowRight") {
+        next = current.nextElementSibling
+        descent = []
+      } else {
+        return false
+      }
+      if (next) highlight(next)
+      return true
+    }
+    const onKey = (e: KeyboardEvent) => {
+      if (!handleKey(e.key)) return
+      e.preventDefault()
+      e.stopPropagation()
+    }
+
+    document.addEventListener("mousemove", onMove, true)
+    document.addEventListener("mousedown", swallow, true)
+    document.addEventListener("mouseup", swallow, true)
+    document.addEventListener("click", onClick, true)
+    document.addEventListener("keydown", onKey, true)
+  })
+}
+
+/**
+ * Page rect (document CSS px) to capture for `el` with `padding`, clamped to
+ * the document, plus where the element's own box sits inside that rect.
+ */
+export function elementCaptureRect(el: PickedElement, padding: number): { rect: Rect; box: Rect } {
+  const r = viewportRect(el)
+  const doc = document.documentElement
+  const pageWidth = Math.max(doc.scrollWidth, doc.clientWidth)
+  const pageHeight = Math.max(doc.scrollHeight, doc.clientHeight)
+  const left = r.x + window.scrollX
+  const top = r.y + window.scrollY
+  const x = Math.max(0, Math.floor(left - padding))
+  const y = Math.max(0, Math.floor(top - padding))
+  const right = Math.min(pageWidth, Math.ceil(left + r.width + padding))
+  const bottom = Math.min(pageHeight, Math.ceil(top + r.height + padding))
+  return {
+    rect: { x, y, width: Math.max(1, right - x), height: Math.max(1, bottom - y) },
+    box: { x: left - x, y: top - y, width: r.width, height: r.height }
+  }
+}
+
+// Elements inside frames are where the agent last saw them, clipped to the frame's box
+function viewportRect(el: PickedElement): Rect {
+  if (el instanceof Element) {
+    const r = el.getBoundingClientRect()
+    return { x: r.left, y: r.top, width: r.width, height: r.height }
+  }
+  const origin = frameViewportOrigin(el.iframe)
+  const frame = el.iframe.getBoundingClientRect()
+  const x = Math.max(origin.x + el.hit.rect.x, frame.left)
+  const y = Math.max(origin.y + el.hit.rect.y, frame.top)
+  const right = Math.min(origin.x + el.hit.rect.x + el.hit.rect.width, frame.right)
+  const bottom = Math.min(origin.y + el.hit.rect.y + el.hit.rect.height, frame.bottom)
+  return { x, y, width: Math.max(0, right - x), height: Math.max(0, bottom - y) }
+}
+
+// Corner radii in CSS px, clockwise from top-left (elliptical and % radii use their horizontal value)
+export function pickedRadii(el: PickedElement): number[] {
+  return el instanceof Element ? elementRadii(el) : el.hit.radii
+}
+
+export function elementRadii(el: Element): number[] {
+  const style = getComputedStyle(el)
+  const width = el.getBoundingClientRect().width
+  return [style.borderTopLeftRadius, style.borderTopRightRadius, style.borderBottomRightRadius, style.borderBottomLeftRadius].map(
+    (value) => {
+      const first = value.split(" ")[0] || "0"
+      return first.endsWith("%") ? (parseFloat(first) / 100) * width : parseFloat(first) || 0
+    }
+  )
+}
+
+/**
+ * Applies the element mask to a capture of `elementCaptureRect().rect` (image
+ * px == CSS px). "transparent" keeps only the element's own (rounded) box;
+ * "rounded" keeps the padding but rounds the outer corners. JPEG output has no
+ * alpha, so masked areas come out white there.
+ */
+export async function maskElementImage(image: Blob, box: Rect, radii: number[], mask: ElementMask, output: OutputFormat): Promise<Blob> {
+  if (mask === "none") return image
+  const img = await createImageBitmap(image)
+  const canvas = document.createElement("canvas")
+  canvas.width = img.width
+  canvas.height = img.height
+  const ctx = canvas.getContext("2d")!
+  ctx.beginPath()
+  if (mask === "transparent") {
+    ctx.roundRect(box.x, box.y, box.width, box.height, radii)
+  } else {
+    const pad = Math.max(box.x, box.y)
+    ctx.roundRect(0, 0, canvas.width, canvas.height, radii.map((r) => Math.max(MIN_ROUNDED_RADIUS, r + pad)))
+  }
+  ctx.clip()
+  ctx.drawImage(img, 0, 0)
+  img.close()
+  return encodeCanvas(canvas, output)
+}
@@ -0,0 +1,127 @@
+// Suppression of position:fixed / position:sticky elements while scrolling through a page
+
+// first: only in the first row of tiles, last: only in the last row, hide: never, keep: every tile (old behaviour)
+export type FixedElementMode = "first" | "last" | "hide" | "keep"
+
+export const DEFAULT_FIXED_ELEMENT_MODE: FixedElementMode = "first"
+
+interface SavedStyle {
+  el: HTMLElement
+  // Sticky elements are only suppressed while stuck; in flow they are page content
+  sticky: boolean
+  value: string
+  priority: string
+  hadStyleAttr: boolean
+  hidden: boolean
+}
+
+/**
+ * Finds fixed and sticky elements once before a capture and toggles their
+ * visibility per tile. `visibility` is used instead of `display` so the page
+ * layout (and therefore every tile offset) stays exactly the same.
+ */
+export class FixedElementSuppressor {
+  private saved: SavedStyle[] = []
+
+  constructor(private mode: FixedElementMode = DEFAULT_FIXED_ELEMENT_MODE) {}
+
+  // Elements containing `keep` (the scroll container being captured) are left alone
+  collect(root: ParentNode = document.body, keep?: Element) {
+    this.saved = []
+    if (this.mode === "keep" || !root) return 0
+    const all = root.querySelectorAll<HTMLElement>("*")
+    for (const el of Array.from(all)) {
+      // Our own overlays are handled by withProgressHidden
+      if (el.closest("[data-screenshot-progress]")) continue
+      const position = getComputedStyle(el).position
+      if (position !== "fixed" && position !== "sticky") continue
+      if (keep && el.contains(keep)) continue
+      // Children of an already collected fixed element follow their ancestor
+      if (this.saved.some((s) => !s.sticky && s.el.contains(el))) continue
+      this.saved.push({
+        el,
+        sticky: position === "sticky",
+        value: el.style.getPropertyValue("visibility"),
+        priority: el.style.getPropertyPriority("visibility"),
+        hadStyleAttr: el.hasAttribute("style"),
+        hidden: false
+      })
+    }
+    console.log(`Found ${this.saved.length} fixed/sticky elements (mode: ${this.mode})`)
+    return this.saved.length
+  }
+
+  /**
+   * Applies the visibility for a tile in `row` of `rows`. Call it once the tile's scroll
+   * position has been reached: whether a sticky element is stuck depends on it.
+   */
+  beforeTile(row: number, rows: number) {
+    if (this.mode === "keep" || !this.saved.length) return
+    const visible =
+      (this.mode === "first" && row === 0) ||
+      (this.mode === "last" && row === rows - 1)
+    if (visible) {
+      this.show()
+      return
+    }
+    const stuck = this.stuckElements()
+    for (const s of this.saved) {
+      if (!s.sticky || stuck.has(s.el)) this.hideOne(s)
+      else this.restoreOne(s)
+    }
+  }
+
+  // Sticky elements that are currently displaced from their in-flow position
+  private stuckElements(): Set<HTMLElement> {
+    const sticky = this.saved.filter((s) => s.sticky)
+    const stuck = new Set<HTMLElement>()
+    if (!sticky.length) return stuck
+    // A static box takes the same space a sticky one does, so the swap moves nothing else
+    const actual = sticky.map((s) => s.el.getBoundingClientRect())
+    const positions = sticky.map((s) => {
+      const saved = { value: s.el.style.getPropertyValue("position"), priority: s.el.style.getPropertyPriority("position") }
+      s.el.style.setProperty("position", "static", "important")
+      return saved
+    })
+    const inFlow = sticky.map((s) => s.el.getBoundingClientRect())
+    sticky.forEach((s, i) => {
+      const { value, priority } = positions[i]
+      if (value) s.el.style.setProperty("position", value, priority)
+      else s.el.style.removeProperty("position")
+      if (!s.hadStyleAttr && s.el.getAttribute("style") === "") s.el.removeAttribute("style")
+      if (Math.abs(actual[i].top - inFlow[i].top) > 0.5 || Math.abs(actual[i].left - inFlow[i].left) > 0.5) {
+        stuck.add(s.el)
+      }
+    })
+    return stuck
+  }
+
+  private hideOne(s: SavedStyle) {
+    if (s.hidden) return
+    s.el.style.setProperty("visibility", "hidden", "important")
+    s.hidden = true
+  }
+
+  private show() {
+    for (const s of this.saved) this.restoreOne(s)
+  }
+
+  // Puts every element back exactly as found; safe to call more than once
+  restore() {
+    this.show()
+    this.saved = []
+  }
+
+  private restoreOne(s: SavedStyle) {
+    if (!s.hidden) return
+    s.hidden = false
+    if (s.value) {
+      s.el.style.setProperty("visibility", s.value, s.priority)
+    } else {
+      s.el.style.removeProperty("visibility")
+    }
+    if (!s.hadStyleAttr && s.el.getAttribute("style") === "") {
+      s.el.removeAttribute("style")
+    }
+  }
+}
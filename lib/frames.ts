@@ -0,0 +1,400 @@
+// Frame-aware capture. An agent (contents/frame-agent.ts) runs in every iframe directly
+// inside the top page and sleeps until the top frame's content script starts a picker or a
+// frame capture. While awake it reports its document's scroll size and offsets, scrolls when
+// asked and hit-tests for the pickers. Commands and reports are extension messages relayed
+// by the background by frameId, so scripts on the page can neither read nor forge them.
+// The top frame never reads the frame's DOM. Pixels still come from captureVisibleTab tiles of the whole tab.
+
+import { describeElement, elementRadii } from "~lib/element-picker"
+import { createRequestId, type ExtensionMessage } from "~lib/messages"
+import type { Rect } from "~lib/redaction"
+import type { Point } from "~lib/scroll-target"
+
+// window.postMessage is only used to tell an <iframe> element's frameId (see greetFrames)
+const CHANNEL = "screenshot-extension-frame"
+const REPORT_THROTTLE_MS = 50
+const REFRESH_TIMEOUT_MS = 500
+
+export interface FrameMetrics {
+  scroll: Point
+  scrollWidth: number
+  scrollHeight: number
+  // Content area without scrollbars, CSS px of the frame
+  clientWidth: number
+  clientHeight: number
+}
+
+// Element under the pointer inside a frame, in the frame's viewport px
+export interface FrameHit {
+  rect: Rect
+  radii: number[]
+  label: string
+}
+
+export type PickMode = "element" | "scroll"
+
+// top -> frame
+export type FrameCommand =
+  // Wake up / go back to sleep; an idle agent listens for nothing else
+  | { type: "start" }
+  | { type: "stop" }
+  | { type: "report" }
+  | { type: "scroll"; x: number; y: number }
+  | { type: "pick-start"; mode: PickMode }
+  // Arrow key navigation of the element picker, applied to the frame's current element
+  | { type: "pick-move"; key: string }
+  | { type: "pick-end" }
+
+// frame -> top
+export type FrameReport =
+  // Awake and waiting for the top frame's nonce
+  | { type: "ready" }
+  // The nonce the top frame posted to this frame's window, telling it which <iframe> this is
+  | { type: "hello"; nonce: string; metrics: FrameMetrics }
+  | { type: "metrics"; metrics: FrameMetrics }
+  // null when the pointer is on the frame's root, or ↑ left the frame's document
+  | { type: "pick-hover"; hit: FrameHit | null }
+  | { type: "pick-click" }
+  // Keys pressed while focus is inside the frame
+  | { type: "pick-key"; key: string }
+
+const PICKER_KEYS = ["Escape", "Enter", "ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight"]
+
+// ---- top frame ----
+const frameIds = new Map<HTMLIFrameElement, number>()
+const framesById = new Map<number, HTMLIFrameElement>()
+const metricsByFrame = new Map<HTMLIFrameElement, FrameMetrics>()
+const metricsWaiters = new Map<HTMLIFrameElement, (() => void)[]>()
+// Nonces posted to iframes that haven't answered yet
+const pendingNonces = new Map<string, HTMLIFrameElement>()
+const helloWaiters = new Set<() => void>()
+let pickListener: ((iframe: HTMLIFrameElement, report: FrameReport) => void) | null = null
+let connected = false
+let tracking = false
+
+// The background delivers it to the one frame, or to every frame of the tab without a frameId
+function relay(command: FrameCommand, frameId?: number) {
+  const message: ExtensionMessage = { action: "frame-command", frameId, command }
+  chrome.runtime.sendMessage(message).catch(() => {})
+}
+
+function sendToFrame(iframe: HTMLIFrameElement, command: FrameCommand) {
+  const frameId = frameIds.get(iframe)
+  if (frameId !== undefined) relay(command, frameId)
+}
+
+// Posts a fresh nonce to every iframe not matched yet. Only the agent can send it back
+// through the background, which adds the frameId it came from.
+function greetFrames() {
+  for (const iframe of Array.from(document.querySelectorAll("iframe"))) {
+    if (frameIds.has(iframe) || !iframe.contentWindow) continue
+    const nonce = createRequestId()
+    pendingNonces.set(nonce, iframe)
+    iframe.contentWindow.postMessage({ channel: CHANNEL, type: "hello", nonce }, "*")
+  }
+}
+
+function setMetrics(iframe: HTMLIFrameElement, metrics: FrameMetrics) {
+  metricsByFrame.set(iframe, metrics)
+  metricsWaiters.get(iframe)?.forEach((resolve) => resolve())
+  metricsWaiters.delete(iframe)
+}
+
+function handleReport(frameId: number, report: FrameReport) {
+  if (!connected) return
+  if (report.type === "ready") {
+    greetFrames()
+    return
+  }
+  if (report.type === "hello") {
+    const iframe = pendingNonces.get(report.nonce)
+    if (!iframe) return
+    pendingNonces.delete(report.nonce)
+    frameIds.set(iframe, frameId)
+    framesById.set(frameId, iframe)
+    setMetrics(iframe, report.metrics)
+    helloWaiters.forEach((check) => check())
+    return
+  }
+  const iframe = framesById.get(frameId)
+  if (!iframe) return
+  if (report.type === "metrics") setMetrics(iframe, report.metrics)
+  else pickListener?.(iframe, report)
+}
+
+/** Starts listening for reports relayed from frame agents (top frame only). */
+export function trackFrames() {
+  if (tracking || window !== window.top) return
+  tracking = true
+  chrome.runtime.onMessage.addListener((message: ExtensionMessage) => {
+    if (message.action === "frame-report" && message.frameId !== undefined) handleReport(message.frameId, message.report)
+  })
+}
+
+// Resolves once every iframe on the page has been matched, or after a short timeout
+// for frames the extension doesn't run in
+function waitForFrames(): Promise<void> {
+  const matched = () => Array.from(document.querySelectorAll("iframe")).every((iframe) => frameIds.has(iframe))
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer)
+      helloWaiters.delete(check)
+      resolve()
+    }
+    const check = () => matched() && done()
+    const timer = setTimeout(done, REFRESH_TIMEOUT_MS)
+    helloWaiters.add(check)
+    check()
+  })
+}
+
+/**
+ * Wakes the frame agents for a picker or a frame capture and resolves once they have
+ * reported, with the function that puts them back to sleep.
+ */
+export async function connectFrames(): Promise<() => void> {
+  if (window !== window.top) return () => {}
+  connected = true
+  relay({ type: "start" })
+  // Agents that were already awake answer this; the others announce themselves with "ready"
+  greetFrames()
+  await waitForFrames()
+  return () => {
+    if (!connected) return
+    connected = false
+    pickListener = null
+    relay({ type: "stop" })
+    frameIds.clear()
+    framesById.clear()
+    metricsByFrame.clear()
+    pendingNonces.clear()
+  }
+}
+
+/** Last reported metrics of the iframe's document, or null when it has no agent. */
+export function frameMetrics(iframe: HTMLIFrameElement): FrameMetrics | null {
+  return iframe.isConnected ? metricsByFrame.get(iframe) || null : null
+}
+
+/** Asks the agent for fresh metrics; resolves once they arrive, or after a short timeout. */
+export function refreshFrameMetrics(iframe: HTMLIFrameElement): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, REFRESH_TIMEOUT_MS)
+    const waiters = metricsWaiters.get(iframe) || []
+    waiters.push(() => {
+      clearTimeout(timer)
+      resolve()
+    })
+    metricsWaiters.set(iframe, waiters)
+    sendToFrame(iframe, { type: "report" })
+  })
+}
+
+export function scrollFrame(iframe: HTMLIFrameElement, x: number, y: number) {
+  sendToFrame(iframe, { type: "scroll", x, y })
+}
+
+export function isScrollableFrame(iframe: HTMLIFrameElement): boolean {
+  const metrics = frameMetrics(iframe)
+  return !!metrics && (metrics.scrollHeight > metrics.clientHeight + 1 || metrics.scrollWidth > metrics.clientWidth + 1)
+}
+
+// Iframes whose document scrolls, as reported by their agents
+export function scrollableFrames(): HTMLIFrameElement[] {
+  return Array.from(metricsByFrame.keys()).filter((iframe) => iframe.isConnected && isScrollableFrame(iframe))
+}
+
+/** Top-left of the iframe's viewport, in the top frame's viewport px. */
+export function frameViewportOrigin(iframe: HTMLIFrameElement): Point {
+  const rect = iframe.getBoundingClientRect()
+  const style = getComputedStyle(iframe)
+  return {
+    x: rect.left + iframe.clientLeft + (parseFloat(style.paddingLeft) || 0),
+    y: rect.top + iframe.clientTop + (parseFloat(style.paddingTop) || 0)
+  }
+}
+
+/**
+ * Puts every connected frame agent into picker mode and routes their pointer and key
+ * reports to `listener` until the returned function is called.
+ */
+export function startFramePicking(mode: PickMode, listener: (iframe: HTMLIFrameElement, report: FrameReport) => void): () => void {
+  pickListener = listener
+  frameIds.forEach((frameId) => relay({ type: "pick-start", mode }, frameId))
+  return () => {
+    if (pickListener === listener) pickListener = null
+    frameIds.forEach((frameId) => relay({ type: "pick-end" }, frameId))
+  }
+}
+
+export function movePickInFrame(iframe: HTMLIFrameElement, key: string) {
+  sendToFrame(iframe, { type: "pick-move", key })
+}
+
+// ---- frame agent ----
+/** Runs in iframes directly inside the top page; does nothing anywhere else. */
+export function startFrameAgent() {
+  // Nested frames would need their offsets chained through every ancestor
+  if (window === window.top || window.parent !== window.top) return
+
+  const post = (report: FrameReport) => {
+    const message: ExtensionMessage = { action: "frame-report", report }
+    chrome.runtime.sendMessage(message).catch(() => {})
+  }
+  const metrics = (): FrameMetrics => {
+    const doc = document.documentElement
+    return {
+      scroll: { x: window.scrollX, y: window.scrollY },
+      scrollWidth: Math.max(doc.scrollWidth, document.body?.scrollWidth || 0),
+      scrollHeight: Math.max(doc.scrollHeight, document.body?.scrollHeight || 0),
+      clientWidth: doc.clientWidth || window.innerWidth,
+      clientHeight: doc.clientHeight || window.innerHeight
+    }
+  }
+  const report = () => post({ type: "metrics", metrics: metrics() })
+  let reportTimer: ReturnType<typeof setTimeout> | null = null
+  const reportSoon = () => {
+    if (reportTimer) return
+    reportTimer = setTimeout(() => {
+      reportTimer = null
+      report()
+    }, REPORT_THROTTLE_MS)
+  }
+  // Page scripts in this frame see the nonce too, but can't send it back through the extension.
+  // Only the parent's nonce counts, so one frame can't claim to be another.
+  const onHello = (event: MessageEvent) => {
+    const data = event.data
+    if (event.source !== window.parent || !data || data.channel !== CHANNEL || data.type !== "hello") return
+    if (typeof data.nonce === "string") post({ type: "hello", nonce: data.nonce, metrics: metrics() })
+  }
+
+  // ---- picking ----
+  let pickMode: PickMode | null = null
+  let current: Element | null = null
+  // Elements left by ↑, so ↓ returns along the same path
+  let descent: Element[] = []
+  // Whether the top frame has heard the pointer is in here since it last left
+  let entered = false
+  const hover = (el: Element | null) => {
+    current = el
+    if (!el || pickMode !== "element") {
+      post({ type: "pick-hover", hit: null })
+      return
+    }
+    const r = el.getBoundingClientRect()
+    post({ type: "pick-hover", hit: { rect: { x: r.left, y: r.top, width: r.width, height: r.height }, radii: elementRadii(el), label: describeElement(el) } })
+  }
+  const swallow = (e: Event) => {
+    if (!pickMode) return
+    e.preventDefault()
+    e.stopPropagation()
+  }
+  const onMove = (e: MouseEvent) => {
+    if (!pickMode) return
+    const el = document.elementFromPoint(e.clientX, e.clientY)
+    const target = el === document.documentElement ? null : el
+    if (target !== current || !entered) {
+      entered = true
+      descent = []
+      hover(target)
+    }
+  }
+  const onLeave = () => {
+    entered = false
+  }
+  const onClick = (e: MouseEvent) => {
+    if (!pickMode) return
+    swallow(e)
+    post({ type: "pick-click" })
+  }
+  const onKey = (e: KeyboardEvent) => {
+    if (!pickMode || !PICKER_KEYS.includes(e.key)) return
+    swallow(e)
+    post({ type: "pick-key", key: e.key })
+  }
+  const move = (key: string) => {
+    if (!current) return
+    let next: Element | null = null
+    if (key === "ArrowUp") {
+      next = current.parentElement !== document.documentElement ? current.parentElement : null
+      if (!next) {
+        // Past <body>: the top frame continues from the iframe element
+        current = null
+        descent = []
+        post({ type: "pick-hover", hit: null })
+        return
+      }
+      descent.push(current)
+    } else if (key === "ArrowDown") {
+      next = descent.pop() || current.firstElementChild
+    } else if (key === "ArrowLeft") {
+      next = current.previousElementSibling
+      descent = []
+    } else if (key === "ArrowRight") {
+      next = current.nextElementSibling
+      descent = []
+    }
+    if (next) hover(next)
+  }
+
+  // Page listeners exist only between start and stop
+  let awake = false
+  const start = () => {
+    if (awake) return
+    awake = true
+    window.addEventListener("message", onHello)
+    window.addEventListener("scroll", reportSoon, { passive: true })
+    window.addEventListener("resize", reportSoon)
+    document.addEventListener("mousemove", onMove, true)
+    document.documentElement.addEventListener("mouseleave", onLeave)
+    document.addEventListener("mousedown", swallow, true)
+    document.addEventListener("mouseup", swallow, true)
+    document.addEventListener("click", onClick, true)
+    document.addEventListener("keydown", onKey, true)
+    post({ type: "ready" })
+  }
+  const stop = () => {
+    if (!awake) return
+    awake = false
+    pickMode = null
+    current = null
+    if (reportTimer) clearTimeout(reportTimer)
+    reportTimer = null
+    window.removeEventListener("message", onHello)
+    window.removeEventListener("scroll", reportSoon)
+    window.removeEventListener("resize", reportSoon)
+    document.removeEventListener("mousemove", onMove, true)
+    document.documentElement.removeEventListener("mouseleave", onLeave)
+    document.removeEventListener("mousedown", swallow, true)
+    document.removeEventListener("mouseup", swallow, true)
+    document.removeEventListener("click", onClick, true)
+    document.removeEventListener("keydown", onKey, true)
+  }
+
+  chrome.runtime.onMessage.addListener((message: ExtensionMessage) => {
+    if (message.action !== "frame-command") return
+    const command = message.command
+    if (command.type === "start") {
+      start()
+    } else if (command.type === "stop") {
+      stop()
+    } else if (!awake) {
+      return
+    } else if (command.type === "report") {
+      report()
+    } else if (command.type === "scroll") {
+      window.scrollTo({ left: command.x, top: command.y, behavior: "instant" })
+      report()
+    } else if (command.type === "pick-start") {
+      pickMode = command.mode
+      current = null
+      descent = []
+      entered = false
+    } else if (command.type === "pick-move") {
+      move(command.key)
+    } else if (command.type === "pick-end") {
+      pickMode = null
+      current = null
+    }
+  })
+}
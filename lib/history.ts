@@ -0,0 +1,191 @@
+// Capture history kept in IndexedDB in the extension origin (background / extension pages only)
+
+export type CaptureMode = "visible" | "full" | "region" | "element" | "responsive"
+
+export interface CaptureRecord {
+  id: string
+  blob: Blob
+  thumbnail: Blob
+  url: string
+  title: string
+  mode: CaptureMode
+  width: number
+  height: number
+  size: number // bytes of `blob` + `thumbnail`, counted against the quota
+  createdAt: number
+  lastAccessedAt: number
+}
+
+export type CaptureSummary = Omit<CaptureRecord, "blob">
+
+export interface NewCapture {
+  // Saving again under the same id replaces that capture (an edited result)
+  id?: string
+  blob: Blob
+  url: string
+  title: string
+  mode: CaptureMode
+}
+
+export const DEFAULT_HISTORY_QUOTA_BYTES = 200 * 1024 * 1024
+
+const DB_NAME = "capture-history"
+const DB_VERSION = 1
+const CAPTURES = "captures"
+const META = "meta"
+const THUMBNAIL_WIDTH = 320
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(CAPTURES)) {
+        const store = db.createObjectStore(CAPTURES, { keyPath: "id" })
+        store.createIndex("createdAt", "createdAt")
+        store.createIndex("lastAccessedAt", "lastAccessedAt")
+      }
+      if (!db.objectStoreNames.contains(META)) {
+        db.createObjectStore(META, { keyPath: "key" })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+async function makeThumbnail(blob: Blob): Promise<{ thumbnail: Blob; width: number; height: number }> {
+  const bitmap = await createImageBitmap(blob)
+  try {
+    const scale = Math.min(1, THUMBNAIL_WIDTH / bitmap.width)
+    const canvas = new OffscreenCanvas(
+      Math.max(1, Math.round(bitmap.width * scale)),
+      // Very long pages only keep the top of the page in the thumbnail
+      Math.max(1, Math.min(Math.round(bitmap.height * scale), THUMBNAIL_WIDTH * 2))
+    )
+    canvas.getContext("2d")!.drawImage(bitmap, 0, 0, bitmap.width * scale, bitmap.height * scale)
+    const thumbnail = await canvas.convertToBlob({ type: "image/jpeg", quality: 0.8 })
+    return { thumbnail, width: bitmap.width, height: bitmap.height }
+  } finally {
+    bitmap.close()
+  }
+}
+
+export async function getHistoryQuota(): Promise<number> {
+  const db = await openDb()
+  const entry = await promisify(db.transaction(META).objectStore(META).get("quotaBytes"))
+  // 0 is a valid quota (keep no history); only a missing or corrupt entry means the default
+  const value = entry?.value
+  return typeof value === "number" && value >= 0 ? value : DEFAULT_HISTORY_QUOTA_BYTES
+}
+
+export async function setHistoryQuota(bytes: number): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(META, "readwrite")
+  tx.objectStore(META).put({ key: "quotaBytes", value: Math.max(0, bytes) })
+  await done(tx)
+  await evictToQuota()
+}
+
+export async function addCapture(capture: NewCapture): Promise<CaptureSummary> {
+  const { thumbnail, width, height } = await makeThumbnail(capture.blob)
+  const now = Date.now()
+  const db = await openDb()
+  const tx = db.transaction(CAPTURES, "readwrite")
+  const store = tx.objectStore(CAPTURES)
+  const existing: CaptureRecord | undefined = capture.id ? await promisify(store.get(capture.id)) : undefined
+  const record: CaptureRecord = {
+    id: capture.id || `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    blob: capture.blob,
+    thumbnail,
+    url: capture.url,
+    title: capture.title,
+    mode: capture.mode,
+    width,
+    height,
+    size: capture.blob.size + thumbnail.size,
+    createdAt: existing?.createdAt || now,
+    lastAccessedAt: now
+  }
+  store.put(record)
+  await done(tx)
+  await evictToQuota(record.id)
+  const { blob: _blob, ...summary } = record
+  return summary
+}
+
+// Newest first, without the full-size image blobs
+export async function listCaptures(): Promise<CaptureSummary[]> {
+  const db = await openDb()
+  const records: CaptureRecord[] = await promisify(db.transaction(CAPTURES).objectStore(CAPTURES).getAll())
+  return records
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(({ blob: _blob, ...summary }) => summary)
+}
+
+// Reading a capture counts as a use for LRU eviction
+export async function getCapture(id: string): Promise<CaptureRecord | null> {
+  const db = await openDb()
+  const tx = db.transaction(CAPTURES, "readwrite")
+  const store = tx.objectStore(CAPTURES)
+  const record: CaptureRecord | undefined = await promisify(store.get(id))
+  if (record) {
+    record.lastAccessedAt = Date.now()
+    store.put(record)
+  }
+  await done(tx)
+  return record || null
+}
+
+export async function deleteCapture(id: string): Promise<void> {
+  const db = await openDb()
+  const tx = db.transaction(CAPTURES, "readwrite")
+  tx.objectStore(CAPTURES).delete(id)
+  await done(tx)
+}
+
+/**
+ * Deletes least recently used captures until the total size fits the quota.
+ * `keepId` (the capture just added) is never evicted, even if it alone is over quota.
+ */
+export async function evictToQuota(keepId?: string): Promise<number> {
+  const quota = await getHistoryQuota()
+  const db = await openDb()
+  const tx = db.transaction(CAPTURES, "readwrite")
+  const store = tx.objectStore(CAPTURES)
+  const records: CaptureSummary[] = (await promisify(store.getAll())).map(({ blob: _blob, ...summary }) => summary)
+  let total = records.reduce((sum, r) => sum + r.size, 0)
+  let evicted = 0
+  for (const record of records.sort((a, b) => a.lastAccessedAt - b.lastAccessedAt)) {
+    if (total <= quota) break
+    if (record.id === keepId) continue
+    store.delete(record.id)
+    total -= record.size
+    evicted++
+  }
+  await done(tx)
+  if (evicted) console.log(`Capture history: evicted ${evicted} capture(s) to stay within ${quota} bytes`)
+  return evicted
+}
@@ -0,0 +1,91 @@
+// Output image formats for captures (download and preview; the clipboard always gets PNG)
+
+export type ImageFormat = "png" | "jpeg" | "webp"
+
+export interface OutputFormat {
+  format: ImageFormat
+  // 0..1, ignored for PNG
+  quality: number
+}
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = { format: "png", quality: 0.92 }
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+  png: "image/png",
+  jpeg: "image/jpeg",
+  webp: "image/webp"
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp"
+}
+
+export function mimeTypeFor(format: ImageFormat): string {
+  return MIME_TYPES[format] || MIME_TYPES.png
+}
+
+export function extensionForMimeType(mime: string): string {
+  return EXTENSIONS[mime] || "png"
+}
+
+// Chunked so large captures don't exceed the argument limit of String.fromCharCode
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+export async function blobToDataUrl(blob: Blob): Promise<string> {
+  return `data:${blob.type || "image/png"};base64,${bytesToBase64(new Uint8Array(await blob.arrayBuffer()))}`
+}
+
+// Decodes a capture once, so it is held as bytes rather than as a base64 string a third larger
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const comma = dataUrl.indexOf(",")
+  const type = /^data:([^;,]+)/.exec(dataUrl)?.[1] || "image/png"
+  return new Blob([base64ToBytes(dataUrl.slice(comma + 1))], { type })
+}
+
+export function normalizeOutputFormat(output?: Partial<OutputFormat>): OutputFormat {
+  const format = output?.format && output.format in MIME_TYPES ? output.format : DEFAULT_OUTPUT_FORMAT.format
+  const quality = Number.isFinite(output?.quality)
+    ? Math.min(1, Math.max(0.05, output!.quality!))
+    : DEFAULT_OUTPUT_FORMAT.quality
+  return { format, quality }
+}
+
+/** Encodes `canvas` as `output`. JPEG gets a white background instead of black. */
+export function encodeCanvas(canvas: HTMLCanvasElement, output: OutputFormat = DEFAULT_OUTPUT_FORMAT): Promise<Blob> {
+  if (output.format === "jpeg") {
+    // JPEG has no alpha; paint uncovered (transparent) pixels white instead of black
+    const ctx = canvas.getContext("2d")
+    if (ctx) {
+      ctx.globalCompositeOperation = "destination-over"
+      ctx.fillStyle = "#ffffff"
+      ctx.fillRect(0, 0, canvas.width, canvas.height)
+      ctx.globalCompositeOperation = "source-over"
+    }
+  }
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        // Chrome hands back null instead of throwing when the canvas is over its size limits
+        if (blob) resolve(blob)
+        else reject(new Error(`A ${canvas.width} x ${canvas.height} px image is larger than the browser can encode`))
+      },
+      mimeTypeFor(output.format),
+      output.format === "png" ? undefined : output.quality
+    )
+  })
+}
@@ -0,0 +1,181 @@
+// Message protocol shared by the popup, background script and content script.
+// Messages marked "+ images" carry their images as Blobs next to the message, over
+// the transfer port (lib/transfer.ts), instead of as data URLs in it.
+
+import type { CdpCaptureResult, FullPageEngine } from "~lib/cdp-capture"
+import type { CaptureMode } from "~lib/history"
+import type { OutputBand } from "~lib/canvas-limits"
+import type { FrameCommand, FrameReport } from "~lib/frames"
+import type { ResponsiveFrame } from "~lib/responsive"
+import type { Point } from "~lib/scroll-target"
+
+export interface CaptureTiming {
+  queuedMs: number // waiting for a rate-limit token
+  captureMs: number // first attempt until success, including backoff
+  attempts: number
+}
+
+// ---- popup -> background -> content commands ----
+// Capture options (format, sticky headers, padding, ...) live in the synced settings
+export type CaptureCommand =
+  // Without an engine the one from the settings is used
+  | { action: "capture-full-page"; engine?: FullPageEngine }
+  | { action: "capture-scroll-container" }
+  | { action: "capture-visible-area" }
+  | { action: "capture-region" }
+  | {
+      action: "capture-element"
+      // Capture the element last right-clicked (context menu) instead of opening the picker
+      contextTarget?: boolean
+    }
+  // Full page at each configured width, emulated by the background through chrome.debugger
+  | { action: "capture-responsive" }
+
+export type CaptureAction = CaptureCommand["action"]
+
+export const CAPTURE_ACTIONS: CaptureAction[] = [
+  "capture-full-page",
+  "capture-scroll-container",
+  "capture-visible-area",
+  "capture-region",
+  "capture-element",
+  "capture-responsive"
+]
+
+export function isCaptureAction(action: string): action is CaptureAction {
+  return (CAPTURE_ACTIONS as string[]).includes(action)
+}
+
+// ---- content -> background requests, answered with the same requestId ----
+// Both go over the transfer port, which the reply comes back on
+export interface TileRequest {
+  action: "capture-tile"
+  requestId: string
+  scrollPosition: Point
+}
+
+// Single-shot full page through the DevTools Protocol; on error the content script falls back to scroll-and-stitch.
+// A cancel-request for it is answered with cdp-capture-error once the debugger has let go of the page.
+export interface CdpCaptureRequest {
+  action: "capture-full-page-cdp"
+  requestId: string
+  maxHeight?: number // CSS px, from the warm-up's height cap
+}
+
+// + images: one per part
+export interface CdpCaptureResponse extends Omit<CdpCaptureResult, "parts"> {
+  action: "cdp-capture-result"
+  requestId: string
+  parts: OutputBand[]
+}
+
+export interface CdpCaptureErrorResponse {
+  action: "cdp-capture-error"
+  requestId: string
+  error: string
+}
+
+export interface CancelRequest {
+  action: "cancel-request"
+  requestId: string
+}
+
+// + images: the tile
+export interface TileResponse {
+  action: "screenshot-captured"
+  requestId: string
+  scrollPosition: Point
+  timing?: CaptureTiming
+}
+
+export interface TileErrorResponse {
+  action: "screenshot-error"
+  requestId: string
+  error: string
+}
+
+// ---- clipboard ----
+export type ClipboardMessage =
+  | { action: "copy-to-clipboard" } // + images: the capture
+  // Background -> content: read a context-menu image with the page's cookies; answers whether it could
+  | { action: "copy-page-image"; srcUrl: string }
+  | { action: "clipboard-success"; message: string }
+  | { action: "clipboard-error"; error: string }
+
+// ---- background <-> offscreen document, over the offscreen transfer port ----
+export type OffscreenMessage =
+  | { action: "offscreen-copy"; requestId: string } // + images: the capture
+  // + images: the capture. Answered with a blob: URL of the extension's origin for chrome.downloads
+  | { action: "offscreen-object-url"; requestId: string }
+  | { action: "offscreen-result"; requestId: string; url?: string; error?: string }
+
+// ---- capture history (stored by the background script) ----
+export type HistoryMessage =
+  // + images: the capture. Edits of a result are saved under the id of the original
+  | { action: "save-capture"; id: string; mode: CaptureMode; url: string; title: string }
+  // Gallery -> background: copy a stored capture through the offscreen clipboard document
+  | { action: "history-copy"; id: string }
+  | { action: "history-copy-result"; id: string; success: boolean; error?: string }
+
+// ---- responsive capture: background drives the widths, content captures each one ----
+export type ResponsiveMessage =
+  | { action: "capture-page-image"; requestId: string }
+  | { action: "page-image"; requestId: string } // + images: the top part of the page
+  | { action: "page-image-error"; requestId: string; error: string }
+  // Frames captured so far; `error` is set when a width failed or the debugger was detached. + images: one per frame
+  | { action: "responsive-result"; frames: Omit<ResponsiveFrame, "image">[]; error?: string }
+
+// ---- downloads (chrome.downloads is only available to the background script) ----
+export type DownloadMessage =
+  // + images: the capture
+  | {
+      action: "download-capture"
+      extension: string
+      mode: CaptureMode
+      width: number // image px, for the {width} / {height} file name tokens
+      height: number
+      capturedAt: number
+    }
+  | { action: "download-result"; success: boolean; filename?: string; error?: string }
+
+// ---- frames: the page's content script and the frame agents, relayed by the background ----
+export type FrameMessage =
+  // Without a frameId the command goes to every frame of the tab
+  | { action: "frame-command"; frameId?: number; command: FrameCommand }
+  // The background fills in the frameId of the agent that sent it
+  | { action: "frame-report"; frameId?: number; report: FrameReport }
+
+// ---- content -> popup status ----
+export type StatusMessage =
+  | { action: "capture-progress"; message: string }
+  // background -> popup: the command reached the page's content script
+  | { action: "capture-dispatched" }
+  | { action: "capture-complete" }
+  | { action: "capture-failed"; error: string }
+
+export type ExtensionMessage =
+  | CaptureCommand
+  | TileRequest
+  | CdpCaptureRequest
+  | CancelRequest
+  | TileResponse
+  | TileErrorResponse
+  | CdpCaptureResponse
+  | CdpCaptureErrorResponse
+  | ClipboardMessage
+  | OffscreenMessage
+  | HistoryMessage
+  | ResponsiveMessage
+  | DownloadMessage
+  | FrameMessage
+  | StatusMessage
+
+export type MessageAction = ExtensionMessage["action"]
+export type MessageOf<A extends MessageAction> = Extract<ExtensionMessage, { action: A }>
+
+export function createRequestId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
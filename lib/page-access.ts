@@ -0,0 +1,28 @@
+// Pages Chrome never lets extensions script or capture, with a message the popup can show
+
+const RESTRICTED_PROTOCOLS = ["chrome:", "chrome-extension:", "chrome-search:", "chrome-untrusted:", "devtools:", "edge:", "about:", "view-source:"]
+const WEB_STORE_HOSTS = ["chromewebstore.google.com"]
+
+// Null when the page is (as far as we can tell from the URL) capturable
+export function restrictedPageReason(url?: string): string | null {
+  if (!url) return null
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch (_) {
+    return null
+  }
+  if (RESTRICTED_PROTOCOLS.includes(parsed.protocol)) {
+    return `Browser pages (${parsed.protocol}//) can't be captured. Open a regular web page and try again.`
+  }
+  if (WEB_STORE_HOSTS.includes(parsed.hostname) || (parsed.hostname === "chrome.google.com" && parsed.pathname.startsWith("/webstore"))) {
+    return "The Chrome Web Store can't be captured by extensions."
+  }
+  return null
+}
+
+// sendMessage rejects with this when no content script is listening in the tab
+export function isMissingReceiverError(error: any): boolean {
+  const message = String(error?.message || error || "")
+  return message.includes("Receiving end does not exist") || message.includes("Could not establish connection")
+}
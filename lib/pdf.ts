@@ -0,0 +1,195 @@
+// Minimal multi-page PDF writer for stitched captures. Runs entirely in the page:
+// each page embeds one lossless slice of the image as a Flate-compressed RGB XObject.
+
+export type PdfPageSize = "a4" | "letter"
+
+export interface PdfExportOptions {
+  pageSize: PdfPageSize
+  marginMm: number
+  url: string
+  title: string
+  capturedAt: Date
+}
+
+export const DEFAULT_PDF_OPTIONS: Pick<PdfExportOptions, "pageSize" | "marginMm"> = {
+  pageSize: "a4",
+  marginMm: 10
+}
+
+// Points (1/72 inch)
+const PAGE_SIZES: Record<PdfPageSize, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792]
+}
+
+const MM_TO_PT = 72 / 25.4
+// How far above the ideal break we look for a blank row, as a share of the page height
+const BREAK_SEARCH_RATIO = 0.15
+
+interface PdfImage {
+  width: number
+  height: number
+  data: Uint8Array // zlib-compressed RGB
+}
+
+/**
+ * Splits the canvas into page-height bands, preferring to break on a uniform
+ * (blank) pixel row close above the ideal break so text lines aren't cut.
+ */
+export function findPageBreaks(canvas: HTMLCanvasElement, sliceHeight: number): Array<[number, number]> {
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!
+  const breaks: Array<[number, number]> = []
+  const searchRange = Math.floor(sliceHeight * BREAK_SEARCH_RATIO)
+  let start = 0
+  while (start < canvas.height) {
+    let end = Math.min(canvas.height, start + sliceHeight)
+    if (end < canvas.height && searchRange > 0) {
+      const top = end - searchRange
+      const band = ctx.getImageData(0, top, canvas.width, searchRange).data
+      for (let row = searchRange - 1; row >= 0; row--) {
+        if (isUniformRow(band, row, canvas.width)) {
+          end = top + row + 1
+          break
+        }
+      }
+    }
+    breaks.push([start, end])
+    start = end
+  }
+  return breaks
+}
+
+function isUniformRow(data: Uint8ClampedArray, row: number, width: number): boolean {
+  const base = row * width * 4
+  const r = data[base]
+  const g = data[base + 1]
+  const b = data[base + 2]
+  for (let i = base + 4; i < base + width * 4; i += 4) {
+    if (Math.abs(data[i] - r) > 8 || Math.abs(data[i + 1] - g) > 8 || Math.abs(data[i + 2] - b) > 8) {
+      return false
+    }
+  }
+  return true
+}
+
+async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream("deflate"))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+async function sliceToImage(canvas: HTMLCanvasElement, top: number, bottom: number): Promise<PdfImage> {
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!
+  const height = bottom - top
+  const rgba = ctx.getImageData(0, top, canvas.width, height).data
+  const rgb = new Uint8Array(canvas.width * height * 3)
+  for (let i = 0, j = 0; i < rgba.length; i += 4, j += 3) {
+    rgb[j] = rgba[i]
+    rgb[j + 1] = rgba[i + 1]
+    rgb[j + 2] = rgba[i + 2]
+  }
+  return { width: canvas.width, height, data: await deflate(rgb) }
+}
+
+// Text strings as UTF-16BE hex so titles and URLs survive any characters
+function pdfText(text: string): string {
+  let hex = "FEFF"
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, "0")
+  }
+  return `<${hex}>`
+}
+
+function pdfDate(date: Date): string {
+  const p = (n: number) => String(n).padStart(2, "0")
+  const offset = -date.getTimezoneOffset()
+  const sign = offset >= 0 ? "+" : "-"
+  const abs = Math.abs(offset)
+  return `(D:${date.getFullYear()}${p(date.getMonth() + 1)}${p(date.getDate())}${p(date.getHours())}${p(date.getMinutes())}${p(date.getSeconds())}${sign}${p(Math.floor(abs / 60))}'${p(abs % 60)}')`
+}
+
+/**
+ * Renders `canvas` into a paginated PDF: the image is scaled to the page's
+ * content width and split into pages at blank rows where possible.
+ */
+export async function canvasToPdf(canvas: HTMLCanvasElement, options: PdfExportOptions): Promise<Blob> {
+  const [pageWidth, pageHeight] = PAGE_SIZES[options.pageSize] || PAGE_SIZES.a4
+  const margin = Math.max(0, options.marginMm) * MM_TO_PT
+  const contentWidth = pageWidth - margin * 2
+  const contentHeight = pageHeight - margin * 2
+  if (contentWidth <= 0 || contentHeight <= 0) {
+    throw new Error("PDF margins are larger than the page")
+  }
+  if (!canvas.width || !canvas.height) {
+    throw new Error("The capture is empty, there is nothing to put in a PDF")
+  }
+  const scale = contentWidth / canvas.width // pt per image px
+  const sliceHeight = Math.max(1, Math.floor(contentHeight / scale))
+
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  const offsets: number[] = []
+  let length = 0
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === "string" ? encoder.encode(part) : part
+    chunks.push(bytes)
+    length += bytes.length
+  }
+  const beginObject = (id: number) => {
+    offsets[id] = length
+    write(`${id} 0 obj\n`)
+  }
+
+  const breaks = findPageBreaks(canvas, sliceHeight)
+  // Object ids: 1 catalog, 2 page tree, 3 info, then 3 per page (page, content, image)
+  const pageIds = breaks.map((_, i) => 4 + i * 3)
+
+  write("%PDF-1.4\n")
+  // Binary marker: a comment of raw bytes above 127, which TextEncoder would turn into UTF-8 pairs
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]))
+
+  beginObject(1)
+  write("<< /Type /Catalog /Pages 2 0 R >>\nendobj\n")
+  beginObject(2)
+  write(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>\nendobj\n`)
+  beginObject(3)
+  write(
+    `<< /Title ${pdfText(options.title || options.url)} /Subject ${pdfText(options.url)} /Keywords ${pdfText(options.url)}` +
+      ` /Creator ${pdfText("Full Page Screenshot")} /Producer ${pdfText("Full Page Screenshot")}` +
+      ` /CreationDate ${pdfDate(options.capturedAt)} /ModDate ${pdfDate(options.capturedAt)} >>\nendobj\n`
+  )
+
+  for (let i = 0; i < breaks.length; i++) {
+    const [top, bottom] = breaks[i]
+    const image = await sliceToImage(canvas, top, bottom)
+    const pageId = pageIds[i]
+    const drawWidth = image.width * scale
+    const drawHeight = image.height * scale
+    // PDF origin is bottom-left; pin the slice to the top margin
+    const content = `q ${drawWidth.toFixed(3)} 0 0 ${drawHeight.toFixed(3)} ${margin.toFixed(3)} ${(pageHeight - margin - drawHeight).toFixed(3)} cm /Im0 Do Q\n`
+
+    beginObject(pageId)
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}]` +
+        ` /Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>\nendobj\n`
+    )
+    beginObject(pageId + 1)
+    write(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}endstream\nendobj\n`)
+    beginObject(pageId + 2)
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height}` +
+        ` /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode /Length ${image.data.length} >>\nstream\n`
+    )
+    write(image.data)
+    write("\nendstream\nendobj\n")
+  }
+
+  const objectCount = 4 + breaks.length * 3
+  const xrefOffset = length
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`)
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`)
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+  return new Blob(chunks, { type: "application/pdf" })
+}
@@ -0,0 +1,159 @@
+// Redaction: finding sensitive content on the page and blanking rectangles of a captured image
+
+import type { Point } from "~lib/scroll-target"
+
+export type RedactionStyle = "pixelate" | "fill"
+
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type SensitiveKind = "password" | "email" | "phone" | "selector"
+
+export interface SensitiveRect extends Rect {
+  kind: SensitiveKind
+}
+
+// Suggestions in CSS px of the captured area; `width` is that area's CSS width,
+// which lets the editor scale them to the image's pixels
+export interface RedactionHints {
+  rects: SensitiveRect[]
+  width: number
+}
+
+const EMAIL_RE = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi
+const PHONE_RE = /\+?\(?\d[\d\s().-]{5,}\d/g
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/
+const SKIP_TAGS = new Set(["SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "TEXTAREA"])
+// Keeps the scan bounded on huge pages
+const MAX_SUGGESTIONS = 500
+// Extra CSS px around each rect so anti-aliased glyph edges are covered too
+const PADDING = 2
+
+function isPhoneNumber(text: string): boolean {
+  const digits = text.replace(/\D/g, "").length
+  return digits >= 7 && digits <= 15 && !ISO_DATE_RE.test(text.trim())
+}
+
+function pageRect(r: DOMRect | DOMRectReadOnly, kind: SensitiveKind): SensitiveRect | null {
+  if (r.width <= 0 || r.height <= 0) return null
+  return {
+    kind,
+    x: r.left + window.scrollX - PADDING,
+    y: r.top + window.scrollY - PADDING,
+    width: r.width + PADDING * 2,
+    height: r.height + PADDING * 2
+  }
+}
+
+/**
+ * Collects page rects (document CSS px) of password fields, email- and
+ * phone-like text and elements matching `selectors` inside `root`.
+ * Invalid selectors are skipped.
+ */
+export function findSensitiveRects(root: Element = document.body, selectors: string[] = []): SensitiveRect[] {
+  const found: SensitiveRect[] = []
+  const add = (r: DOMRect | DOMRectReadOnly, kind: SensitiveKind) => {
+    const rect = found.length < MAX_SUGGESTIONS && pageRect(r, kind)
+    if (rect) found.push(rect)
+  }
+
+  root.querySelectorAll<HTMLInputElement>('input[type="password"]').forEach((el) => add(el.getBoundingClientRect(), "password"))
+  root.querySelectorAll<HTMLInputElement>('input[type="email"], input[type="tel"]').forEach((el) => {
+    if (el.value) add(el.getBoundingClientRect(), el.type === "email" ? "email" : "phone")
+  })
+  for (const selector of selectors) {
+    try {
+      root.querySelectorAll(selector).forEach((el) => add(el.getBoundingClientRect(), "selector"))
+    } catch (_) {
+      console.warn(`Ignoring invalid redaction selector: ${selector}`)
+    }
+  }
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) => {
+      const parent = node.parentElement
+      if (!parent || SKIP_TAGS.has(parent.tagName) || parent.closest("[data-screenshot-progress]")) {
+        return NodeFilter.FILTER_REJECT
+      }
+      return node.nodeValue && /[@\d]/.test(node.nodeValue) ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_SKIP
+    }
+  })
+  const range = document.createRange()
+  for (let node = walker.nextNode(); node && found.length < MAX_SUGGESTIONS; node = walker.nextNode()) {
+    const text = node.nodeValue!
+    const matches: Array<[RegExpExecArray, SensitiveKind]> = []
+    for (const m of text.matchAll(EMAIL_RE)) matches.push([m as RegExpExecArray, "email"])
+    for (const m of text.matchAll(PHONE_RE)) {
+      if (isPhoneNumber(m[0])) matches.push([m as RegExpExecArray, "phone"])
+    }
+    for (const [m, kind] of matches) {
+      range.setStart(node, m.index!)
+      range.setEnd(node, m.index! + m[0].length)
+      // One rect per line box when the match wraps
+      for (const r of Array.from(range.getClientRects())) add(r, kind)
+    }
+  }
+  range.detach()
+  return found
+}
+
+/**
+ * Page-coordinate origin (document CSS px) of a scroll target's content box,
+ * i.e. where content offset (0,0) currently sits. The window's is (0,0).
+ */
+export function contentOrigin(element: HTMLElement | null): Point {
+  if (!element) return { x: 0, y: 0 }
+  const r = element.getBoundingClientRect()
+  return {
+    x: r.left + element.clientLeft - element.scrollLeft + window.scrollX,
+    y: r.top + element.clientTop - element.scrollTop + window.scrollY
+  }
+}
+
+/**
+ * Maps page rects into a captured area whose top-left is `origin` (page CSS px),
+ * the same translation `captureRegionMultiScroll` uses when placing tiles.
+ * Rects are clipped to `size`; ones fully outside are dropped.
+ */
+export function toCaptureRects(rects: SensitiveRect[], origin: Point, size: { width: number; height: number }): SensitiveRect[] {
+  const out: SensitiveRect[] = []
+  for (const r of rects) {
+    const x1 = Math.max(0, r.x - origin.x)
+    const y1 = Math.max(0, r.y - origin.y)
+    const x2 = Math.min(size.width, r.x - origin.x + r.width)
+    const y2 = Math.min(size.height, r.y - origin.y + r.height)
+    if (x2 > x1 && y2 > y1) out.push({ kind: r.kind, x: x1, y: y1, width: x2 - x1, height: y2 - y1 })
+  }
+  return out
+}
+
+/**
+ * Blanks `rect` (image px) on `ctx`. Pixelation samples `source`, the
+ * unannotated capture, so nothing drawn on top leaks into the blocks.
+ */
+export function applyRedaction(ctx: CanvasRenderingContext2D, source: CanvasImageSource, rect: Rect, style: RedactionStyle) {
+  const x = Math.round(Math.min(rect.x, rect.x + rect.width))
+  const y = Math.round(Math.min(rect.y, rect.y + rect.height))
+  const width = Math.round(Math.abs(rect.width))
+  const height = Math.round(Math.abs(rect.height))
+  if (!width || !height) return
+  ctx.save()
+  if (style === "fill") {
+    ctx.fillStyle = "#000000"
+    ctx.fillRect(x, y, width, height)
+  } else {
+    // Coarse enough that single characters can't be read back
+    const block = Math.max(8, Math.round(Math.min(width, height) / 3))
+    const small = document.createElement("canvas")
+    small.width = Math.max(1, Math.ceil(width / block))
+    small.height = Math.max(1, Math.ceil(height / block))
+    small.getContext("2d")!.drawImage(source, x, y, width, height, 0, 0, small.width, small.height)
+    ctx.imageSmoothingEnabled = false
+    ctx.drawImage(small, 0, 0, small.width, small.height, x, y, width, height)
+  }
+  ctx.restore()
+}
@@ -0,0 +1,71 @@
+// Responsive capture: the same page at several emulated viewport widths
+
+import { encodeCanvas, type OutputFormat } from "~lib/image-format"
+
+export type ResponsiveLayout = "composite" | "separate"
+
+export interface ResponsiveOptions {
+  widths: number[] // CSS px, captured in this order
+  layout: ResponsiveLayout // one side-by-side image, or one image per width
+}
+
+export const DEFAULT_RESPONSIVE_OPTIONS: ResponsiveOptions = { widths: [375, 768, 1440], layout: "composite" }
+
+export const MIN_RESPONSIVE_WIDTH = 200
+export const MAX_RESPONSIVE_WIDTH = 3840
+export const MAX_RESPONSIVE_WIDTHS = 6
+
+export interface DevicePreset {
+  label: string
+  width: number
+  height: number
+  mobile: boolean // mobile viewport meta handling, overlay scrollbars and touch-style layout
+}
+
+// Viewport height only affects the tile count and 100vh sections, so typical device heights are used
+export function devicePreset(width: number): DevicePreset {
+  if (width < 600) return { label: `Mobile · ${width}px`, width, height: 812, mobile: true }
+  if (width < 1024) return { label: `Tablet · ${width}px`, width, height: 1024, mobile: true }
+  return { label: `Desktop · ${width}px`, width, height: 900, mobile: false }
+}
+
+export interface ResponsiveFrame {
+  label: string
+  width: number // emulated CSS width
+  image: Blob
+}
+
+const GAP = 48
+const LABEL_HEIGHT = 44
+
+/**
+ * Places the frames side by side, top-aligned, each with its label above.
+ * Spacing is in image px of the first frame's scale, so HiDPI captures keep their proportions.
+ */
+export async function composeSideBySide(frames: ResponsiveFrame[], output: OutputFormat): Promise<Blob> {
+  const images = await Promise.all(frames.map((frame) => createImageBitmap(frame.image)))
+  const scale = images[0].width / frames[0].width || 1
+  const gap = Math.round(GAP * scale)
+  const labelHeight = Math.round(LABEL_HEIGHT * scale)
+
+  const canvas = document.createElement("canvas")
+  canvas.width = images.reduce((sum, img) => sum + img.width, 0) + gap * (images.length + 1)
+  canvas.height = Math.max(...images.map((img) => img.height)) + labelHeight + gap * 2
+  const ctx = canvas.getContext("2d")!
+  ctx.fillStyle = "#f3f4f6"
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+  ctx.font = `600 ${Math.round(15 * scale)}px system-ui, sans-serif`
+  ctx.textBaseline = "middle"
+
+  let x = gap
+  images.forEach((img, i) => {
+    ctx.fillStyle = "#374151"
+    ctx.fillText(frames[i].label, x, gap + labelHeight / 2)
+    ctx.fillStyle = "rgba(0,0,0,.08)"
+    ctx.fillRect(x - 1, gap + labelHeight - 1, img.width + 2, img.height + 2)
+    ctx.drawImage(img, x, gap + labelHeight)
+    x += img.width + gap
+    img.close()
+  })
+  return encodeCanvas(canvas, output)
+}
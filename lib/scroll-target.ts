@@ -0,0 +1,261 @@
+// Scroll targets: the window itself, an inner overflow:auto/scroll container, or the
+// document inside an iframe (scrolled by its frame agent, see lib/frames.ts)
+
+import {
+  frameMetrics,
+  frameViewportOrigin,
+  isScrollableFrame,
+  refreshFrameMetrics,
+  scrollableFrames,
+  scrollFrame,
+  startFramePicking
+} from "~lib/frames"
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface ClipRect {
+  // Visible content area in viewport CSS px
+  x: number
+  y: number
+  width: number
+  height: number
+  // Where the visible area starts inside the scrolled content box (non-zero when partly off screen)
+  contentX: number
+  contentY: number
+}
+
+export interface ScrollTarget {
+  element: HTMLElement | null // null means the window
+  getScroll(): Point
+  scrollTo(x: number, y: number): void
+  getScrollSize(): { width: number; height: number }
+  getMaxScroll(): Point
+  getClip(): ClipRect
+}
+
+export function windowScrollTarget(): ScrollTarget {
+  return {
+    element: null,
+    getScroll: () => ({ x: window.scrollX, y: window.scrollY }),
+    scrollTo: (x, y) => window.scrollTo(x, y),
+    getScrollSize: () => ({
+      width: Math.max(
+        document.body.scrollWidth,
+        document.body.offsetWidth,
+        document.documentElement.clientWidth,
+        document.documentElement.scrollWidth,
+        document.documentElement.offsetWidth
+      ),
+      height: Math.max(
+        document.body.scrollHeight,
+        document.body.offsetHeight,
+        document.documentElement.clientHeight,
+        document.documentElement.scrollHeight,
+        document.documentElement.offsetHeight
+      )
+    }),
+    getMaxScroll: () => ({
+      x: Math.max(0, document.documentElement.scrollWidth - window.innerWidth),
+      y: Math.max(0, document.documentElement.scrollHeight - window.innerHeight)
+    }),
+    // Content area only; scrollbars would otherwise end up in the middle of the stitched image
+    getClip: () => ({
+      x: 0,
+      y: 0,
+      width: document.documentElement.clientWidth || window.innerWidth,
+      height: document.documentElement.clientHeight || window.innerHeight,
+      contentX: 0,
+      contentY: 0
+    })
+  }
+}
+
+export function elementScrollTarget(el: HTMLElement): ScrollTarget {
+  return {
+    element: el,
+    getScroll: () => ({ x: el.scrollLeft, y: el.scrollTop }),
+    scrollTo: (x, y) => el.scrollTo({ left: x, top: y, behavior: "instant" }),
+    getScrollSize: () => ({ width: el.scrollWidth, height: el.scrollHeight }),
+    getMaxScroll: () => ({
+      x: Math.max(0, el.scrollWidth - el.clientWidth),
+      y: Math.max(0, el.scrollHeight - el.clientHeight)
+    }),
+    getClip: () => {
+      const rect = el.getBoundingClientRect()
+      // Padding box without borders and scrollbars
+      return visibleClip(rect.left + el.clientLeft, rect.top + el.clientTop, el.clientWidth, el.clientHeight)
+    }
+  }
+}
+
+// Visible part of a scrolled content area whose viewport starts at (left, top), in viewport px
+function visibleClip(left: number, top: number, width: number, height: number): ClipRect {
+  const x = Math.max(0, left)
+  const y = Math.max(0, top)
+  const right = Math.min(left + width, document.documentElement.clientWidth || window.innerWidth)
+  const bottom = Math.min(top + height, document.documentElement.clientHeight || window.innerHeight)
+  return {
+    x,
+    y,
+    width: Math.max(0, right - x),
+    height: Math.max(0, bottom - y),
+    contentX: x - left,
+    contentY: y - top
+  }
+}
+
+/**
+ * An iframe's document. Scroll state is whatever the frame agent last reported, so
+ * after scrollTo the position catches up once the agent has scrolled (waitForScroll polls it).
+ */
+export function frameScrollTarget(iframe: HTMLIFrameElement): ScrollTarget {
+  const metrics = () => {
+    const m = frameMetrics(iframe)
+    if (!m) throw new Error("The frame is no longer available")
+    return m
+  }
+  return {
+    element: iframe,
+    getScroll: () => ({ ...metrics().scroll }),
+    scrollTo: (x, y) => scrollFrame(iframe, x, y),
+    getScrollSize: () => ({ width: metrics().scrollWidth, height: metrics().scrollHeight }),
+    getMaxScroll: () => {
+      const m = metrics()
+      return { x: Math.max(0, m.scrollWidth - m.clientWidth), y: Math.max(0, m.scrollHeight - m.clientHeight) }
+    },
+    getClip: () => {
+      const origin = frameViewportOrigin(iframe)
+      const m = metrics()
+      return visibleClip(origin.x, origin.y, m.clientWidth, m.clientHeight)
+    }
+  }
+}
+
+/** Target for a container picked by the user: an iframe with a frame agent, or a scrollable element. */
+export async function containerScrollTarget(container: HTMLElement): Promise<ScrollTarget> {
+  if (container instanceof HTMLIFrameElement && frameMetrics(container)) {
+    await refreshFrameMetrics(container)
+    return frameScrollTarget(container)
+  }
+  return elementScrollTarget(container)
+}
+
+export function isScrollable(el: Element): el is HTMLElement {
+  if (!(el instanceof HTMLElement)) return false
+  const style = getComputedStyle(el)
+  const scrollsY = /(auto|scroll|overlay)/.test(style.overflowY) && el.scrollHeight > el.clientHeight + 1
+  const scrollsX = /(auto|scroll|overlay)/.test(style.overflowX) && el.scrollWidth > el.clientWidth + 1
+  return scrollsY || scrollsX
+}
+
+// Nearest scrollable ancestor (or self); null when only the window scrolls
+export function closestScrollable(el: Element | null): HTMLElement | null {
+  for (let node = el; node && node !== document.body && node !== document.documentElement; node = node.parentElement) {
+    if (isScrollable(node)) return node
+  }
+  return null
+}
+
+// Scrollable element (or iframe document) with the largest visible area, ignoring the document scroller
+export function findLargestScrollable(): HTMLElement | null {
+  let best: HTMLElement | null = null
+  let bestArea = 0
+  const consider = (el: HTMLElement, area: number) => {
+    if (area > bestArea) {
+      best = el
+      bestArea = area
+    }
+  }
+  for (const el of Array.from(document.body.querySelectorAll("*"))) {
+    if (isScrollable(el)) consider(el, el.clientWidth * el.clientHeight)
+  }
+  for (const iframe of scrollableFrames()) {
+    const { clientWidth, clientHeight } = frameMetrics(iframe)!
+    consider(iframe, clientWidth * clientHeight)
+  }
+  return best
+}
+
+// Size of the content that would be stitched, for the picker's label
+function scrollSizeLabel(el: HTMLElement): string {
+  const metrics = el instanceof HTMLIFrameElement ? frameMetrics(el) : null
+  return metrics ? `${metrics.scrollWidth} x ${metrics.scrollHeight} · frame` : `${el.scrollWidth} x ${el.scrollHeight}`
+}
+
+/**
+ * Lets the user click a scrollable area. The suggested element is highlighted
+ * up front and can be accepted with Enter; Esc cancels and resolves null.
+ */
+export function pickScrollContainer(suggested: HTMLElement | null): Promise<HTMLElement | null> {
+  return new Promise((resolve) => {
+    const box = document.createElement("div")
+    box.style.cssText = "position:fixed;z-index:2147483646;pointer-events:none;border:2px solid #9C27B0;background:rgba(156,39,176,.08);border-radius:3px;display:none;"
+    const label = document.createElement("div")
+    label.style.cssText = "position:absolute;left:0;top:0;transform:translateY(-100%);padding:3px 7px;background:#9C27B0;color:#fff;font:12px/1.3 system-ui,sans-serif;border-radius:4px 4px 0 0;white-space:nowrap;"
+    box.appendChild(label)
+    document.body.appendChild(box)
+
+    let current: HTMLElement | null = suggested
+    const highlight = (el: HTMLElement | null) => {
+      current = el
+      if (!el) {
+        box.style.display = "none"
+        return
+      }
+      const r = el.getBoundingClientRect()
+      box.style.display = "block"
+      box.style.left = r.left + "px"
+      box.style.top = r.top + "px"
+      box.style.width = r.width + "px"
+      box.style.height = r.height + "px"
+      label.textContent = scrollSizeLabel(el)
+    }
+
+    // Pointer events inside iframes never reach this document; their agents forward them
+    const stopFramePicking = startFramePicking("scroll", (iframe, report) => {
+      const candidate = isScrollableFrame(iframe) ? iframe : closestScrollable(iframe) || suggested
+      if (report.type === "pick-hover") highlight(candidate)
+      else if (report.type === "pick-click") finish(candidate)
+      else if (report.type === "pick-key") handleKey(report.key)
+    })
+
+    const finish = (el: HTMLElement | null) => {
+      stopFramePicking()
+      document.removeEventListener("mousemove", onMove, true)
+      document.removeEventListener("click", onClick, true)
+      document.removeEventListener("keydown", onKey, true)
+      box.remove()
+      resolve(el)
+    }
+    const onMove = (e: MouseEvent) => {
+      highlight(closestScrollable(e.target as Element) || suggested)
+    }
+    const onClick = (e: MouseEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+      finish(closestScrollable(e.target as Element) || current)
+    }
+    // True when the key was used
+    const handleKey = (key: string): boolean => {
+      if (key === "Escape") {
+        finish(null)
+      } else if (key === "Enter" && current) {
+        finish(current)
+      } else {
+        return false
+      }
+      return true
+    }
+    const onKey = (e: KeyboardEvent) => {
+      if (handleKey(e.key)) e.preventDefault()
+    }
+
+    document.addEventListener("mousemove", onMove, true)
+    document.addEventListener("click", onClick, true)
+    document.addEventListener("keydown", onKey, true)
+    highlight(suggested)
+  })
+}
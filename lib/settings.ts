@@ -0,0 +1,270 @@
+// User settings, stored as one versioned object in chrome.storage.sync and shared by
+// the popup, options page, background and content script
+
+import { DEFAULT_FULL_PAGE_ENGINE, type FullPageEngine } from "~lib/cdp-capture"
+import { DEFAULT_DOWNLOAD_OPTIONS, type DownloadOptions } from "~lib/downloads"
+import { DEFAULT_ELEMENT_CAPTURE, type ElementCaptureOptions } from "~lib/element-picker"
+import { DEFAULT_FIXED_ELEMENT_MODE, type FixedElementMode } from "~lib/fixed-elements"
+import { DEFAULT_HISTORY_QUOTA_BYTES, type CaptureMode } from "~lib/history"
+import { DEFAULT_OUTPUT_FORMAT, normalizeOutputFormat, type OutputFormat } from "~lib/image-format"
+import { DEFAULT_PDF_OPTIONS, type PdfExportOptions } from "~lib/pdf"
+import {
+  DEFAULT_RESPONSIVE_OPTIONS,
+  MAX_RESPONSIVE_WIDTH,
+  MAX_RESPONSIVE_WIDTHS,
+  MIN_RESPONSIVE_WIDTH,
+  type ResponsiveOptions
+} from "~lib/responsive"
+import { DEFAULT_WARM_UP_MAX_HEIGHT } from "~lib/warm-up"
+
+export type Theme = "dark" | "light"
+
+export interface Settings {
+  version: number
+  // Capture
+  fullPageEngine: FullPageEngine
+  fixedElements: FixedElementMode
+  warmUp: boolean
+  warmUpMaxHeight: number
+  tileDelayMs: number // settle time after scrolling, before each full-page tile
+  regionTileDelayMs: number // same for multi-tile region / element captures
+  rateLimitRetryMs: number // extra wait before retrying a tile the quota rejected
+  // Output
+  output: OutputFormat
+  clipboardCompressMB: number // larger images are re-encoded before copying
+  filenamePrefixes: Record<CaptureMode, string>
+  download: DownloadOptions
+  pdf: Pick<PdfExportOptions, "pageSize" | "marginMm">
+  element: ElementCaptureOptions
+  responsive: ResponsiveOptions
+  redactSelectors: string[]
+  historyQuotaMB: number
+  theme: Theme
+}
+
+// One level deep, so e.g. `{ output: { quality: 0.8 } }` keeps the format
+export type SettingsPatch = {
+  [K in keyof Settings]?: Settings[K] extends object ? Partial<Settings[K]> : Settings[K]
+}
+
+export const SETTINGS_VERSION = 1
+
+export const DEFAULT_SETTINGS: Settings = {
+  version: SETTINGS_VERSION,
+  fullPageEngine: DEFAULT_FULL_PAGE_ENGINE,
+  fixedElements: DEFAULT_FIXED_ELEMENT_MODE,
+  warmUp: false,
+  warmUpMaxHeight: DEFAULT_WARM_UP_MAX_HEIGHT,
+  tileDelayMs: 300,
+  regionTileDelayMs: 250,
+  rateLimitRetryMs: 1500,
+  output: DEFAULT_OUTPUT_FORMAT,
+  clipboardCompressMB: 8,
+  filenamePrefixes: {
+    visible: "visible-area-screenshot",
+    full: "full-page-screenshot",
+    region: "region-screenshot",
+    element: "element-screenshot",
+    responsive: "responsive-screenshot"
+  },
+  download: DEFAULT_DOWNLOAD_OPTIONS,
+  pdf: DEFAULT_PDF_OPTIONS,
+  element: DEFAULT_ELEMENT_CAPTURE,
+  responsive: DEFAULT_RESPONSIVE_OPTIONS,
+  redactSelectors: [],
+  historyQuotaMB: DEFAULT_HISTORY_QUOTA_BYTES / (1024 * 1024),
+  theme: "dark"
+}
+
+const STORAGE_KEY = "settings"
+// chrome.storage.sync allows about two writes per second; sliders and typing are coalesced
+const WRITE_DELAY_MS = 400
+
+// MIGRATIONS[n] upgrades a version-n object to version n + 1
+const MIGRATIONS: Record<number, (old: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 0 is the per-key localStorage the popup used before settings were synced
+  0: (legacy) => {
+    let output: unknown
+    try {
+      output = typeof legacy.outputFormat === "string" ? JSON.parse(legacy.outputFormat) : undefined
+    } catch (_) {
+      output = undefined
+    }
+    return {
+      version: 1,
+      fixedElements: legacy.fixedElementMode,
+      warmUp: legacy.warmUpLazyContent === undefined ? undefined : legacy.warmUpLazyContent === "1",
+      warmUpMaxHeight: legacy.warmUpMaxHeight === undefined ? undefined : Number(legacy.warmUpMaxHeight),
+      output,
+      redactSelectors: typeof legacy.redactSelectors === "string" ? legacy.redactSelectors.split(",") : undefined,
+      element: {
+        padding: legacy.elementPadding === undefined ? undefined : Number(legacy.elementPadding),
+        mask: legacy.elementMask
+      }
+    }
+  }
+}
+
+const LEGACY_KEYS = ["fixedElementMode", "warmUpLazyContent", "warmUpMaxHeight", "outputFormat", "redactSelectors", "elementPadding", "elementMask"]
+
+// Stored values come from older versions or other devices, so nothing about them is trusted
+const record = (value: unknown): Record<string, unknown> =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {}
+
+const number = (value: unknown, fallback: number, min: number, max: number) =>
+  value !== null && value !== "" && Number.isFinite(Number(value)) ? Math.min(max, Math.max(min, Number(value))) : fallback
+
+const oneOf = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback
+
+const text = (value: unknown, fallback: string) => (typeof value === "string" && value.trim() ? value.trim() : fallback)
+
+// Whole px, duplicates dropped, order kept; null when nothing usable is left
+function normalizeWidths(value: unknown): number[] | null {
+  if (!Array.isArray(value)) return null
+  const widths = value
+    .filter((w: unknown) => w !== null && w !== "" && Number.isFinite(Number(w)))
+    .map((w: unknown) => Math.round(Math.min(MAX_RESPONSIVE_WIDTH, Math.max(MIN_RESPONSIVE_WIDTH, Number(w)))))
+  const unique = Array.from(new Set(widths)).slice(0, MAX_RESPONSIVE_WIDTHS)
+  return unique.length ? unique : null
+}
+
+// Fills in defaults and clamps every field, so readers never see a partial or invalid object
+export function normalizeSettings(raw: Record<string, unknown> = {}): Settings {
+  const d = DEFAULT_SETTINGS
+  const prefixes = record(raw.filenamePrefixes)
+  const download = record(raw.download)
+  const pdf = record(raw.pdf)
+  const element = record(raw.element)
+  const responsive = record(raw.responsive)
+  return {
+    version: SETTINGS_VERSION,
+    fullPageEngine: oneOf(raw.fullPageEngine, ["stitch", "cdp"], d.fullPageEngine),
+    fixedElements: oneOf(raw.fixedElements, ["first", "last", "hide", "keep"], d.fixedElements),
+    warmUp: typeof raw.warmUp === "boolean" ? raw.warmUp : d.warmUp,
+    warmUpMaxHeight: number(raw.warmUpMaxHeight, d.warmUpMaxHeight, 1000, 500000),
+    tileDelayMs: number(raw.tileDelayMs, d.tileDelayMs, 0, 5000),
+    regionTileDelayMs: number(raw.regionTileDelayMs, d.regionTileDelayMs, 0, 5000),
+    rateLimitRetryMs: number(raw.rateLimitRetryMs, d.rateLimitRetryMs, 0, 10000),
+    output: normalizeOutputFormat(record(raw.output)),
+    clipboardCompressMB: number(raw.clipboardCompressMB, d.clipboardCompressMB, 1, 100),
+    filenamePrefixes: {
+      visible: text(prefixes.visible, d.filenamePrefixes.visible),
+      full: text(prefixes.full, d.filenamePrefixes.full),
+      region: text(prefixes.region, d.filenamePrefixes.region),
+      element: text(prefixes.element, d.filenamePrefixes.element),
+      responsive: text(prefixes.responsive, d.filenamePrefixes.responsive)
+    },
+    download: {
+      template: text(download.template, d.download.template),
+      subfolder: typeof download.subfolder === "string" ? download.subfolder.trim() : d.download.subfolder,
+      saveAs: typeof download.saveAs === "boolean" ? download.saveAs : d.download.saveAs
+    },
+    pdf: {
+      pageSize: oneOf(pdf.pageSize, ["a4", "letter"], d.pdf.pageSize),
+      marginMm: number(pdf.marginMm, d.pdf.marginMm, 0, 50)
+    },
+    element: {
+      padding: number(element.padding, d.element.padding, 0, 200),
+      mask: oneOf(element.mask, ["none", "transparent", "rounded"], d.element.mask)
+    },
+    responsive: {
+      widths: normalizeWidths(responsive.widths) || d.responsive.widths,
+      layout: oneOf(responsive.layout, ["composite", "separate"], d.responsive.layout)
+    },
+    redactSelectors: Array.isArray(raw.redactSelectors)
+      ? raw.redactSelectors.map((s: unknown) => String(s).trim()).filter(Boolean)
+      : d.redactSelectors,
+    historyQuotaMB: number(raw.historyQuotaMB, d.historyQuotaMB, 10, 10000),
+    theme: oneOf(raw.theme, ["dark", "light"], d.theme)
+  }
+}
+
+export function migrateSettings(raw: unknown): Settings {
+  let data = raw && typeof raw === "object" ? record(raw) : { version: SETTINGS_VERSION }
+  let version = Number(data.version) || 0
+  while (version < SETTINGS_VERSION && MIGRATIONS[version]) {
+    data = MIGRATIONS[version](data)
+    version = Number(data.version)
+  }
+  return normalizeSettings(data)
+}
+
+export async function getSettings(): Promise<Settings> {
+  const stored = await chrome.storage.sync.get(STORAGE_KEY)
+  return migrateSettings(stored[STORAGE_KEY])
+}
+
+let queued: Settings | null = null
+let writeTimer: ReturnType<typeof setTimeout> | undefined
+// Updates run one after another, so a flush also covers one still reading the current settings
+let updates: Promise<unknown> = Promise.resolve()
+
+function writeQueued(): Promise<void> {
+  clearTimeout(writeTimer)
+  const value = queued
+  queued = null
+  if (!value) return Promise.resolve()
+  return chrome.storage.sync.set({ [STORAGE_KEY]: value }).catch((e) => console.error("Could not save settings", e))
+}
+
+/**
+ * Merges `patch` into the current settings and schedules the write.
+ * Resolves with the new settings right away, so UIs can update optimistically.
+ */
+export function updateSettings(patch: SettingsPatch): Promise<Settings> {
+  const update = updates.then(async () => {
+    const current = queued || (await getSettings())
+    const merged: Record<string, unknown> = { ...current }
+    for (const [key, value] of Object.entries(patch)) {
+      merged[key] = value && typeof value === "object" && !Array.isArray(value) ? { ...record(merged[key]), ...value } : value
+    }
+    queued = normalizeSettings(merged)
+    clearTimeout(writeTimer)
+    writeTimer = setTimeout(writeQueued, WRITE_DELAY_MS)
+    return queued
+  })
+  updates = update.catch(() => {})
+  return update
+}
+
+/**
+ * Writes a scheduled change now. Pages call it before starting a capture and when
+ * they go away, since a popup closes before the delayed write would happen.
+ */
+export async function flushSettings(): Promise<void> {
+  await updates
+  await writeQueued()
+}
+
+export async function resetSettings(): Promise<Settings> {
+  await updates
+  clearTimeout(writeTimer)
+  queued = null
+  await chrome.storage.sync.remove(STORAGE_KEY)
+  return DEFAULT_SETTINGS
+}
+
+// Calls `listener` whenever settings change in any context; returns an unsubscribe function
+export function onSettingsChanged(listener: (settings: Settings) => void): () => void {
+  const handler = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+    if (area === "sync" && STORAGE_KEY in changes) listener(migrateSettings(changes[STORAGE_KEY].newValue))
+  }
+  chrome.storage.onChanged.addListener(handler)
+  return () => chrome.storage.onChanged.removeListener(handler)
+}
+
+/**
+ * One-time import of the popup's old localStorage values (extension pages only,
+ * the service worker has no localStorage). Synced settings win if both exist.
+ */
+export async function importLegacySettings(storage: Storage = localStorage): Promise<void> {
+  const present = LEGACY_KEYS.filter((key) => storage.getItem(key) !== null)
+  if (!present.length) return
+  const stored = await chrome.storage.sync.get(STORAGE_KEY)
+  if (!stored[STORAGE_KEY]) {
+    const legacy = Object.fromEntries(present.map((key) => [key, storage.getItem(key)]))
+    await chrome.storage.sync.set({ [STORAGE_KEY]: migrateSettings({ ...legacy, version: 0 }) })
+  }
+  present.forEach((key) => storage.removeItem(key))
+}
@@ -0,0 +1,28 @@
+// Keyboard shortcuts (manifest `commands`). Chrome only lets users rebind them
+// on its own shortcuts page, so the extension just reads and links to them.
+
+import type { CaptureAction } from "~lib/messages"
+
+export const REPEAT_LAST_CAPTURE = "repeat-last-capture"
+// Full page through the single-shot engine whatever the settings say; also a context menu entry
+export const FULL_PAGE_SINGLE_SHOT = "capture-full-page-single-shot"
+
+export type ShortcutCommand = CaptureAction | typeof REPEAT_LAST_CAPTURE | typeof FULL_PAGE_SINGLE_SHOT
+
+export const SHORTCUTS_PAGE_URL = "chrome://extensions/shortcuts"
+
+// Command name -> current key combination ("" when unassigned)
+export async function getShortcuts(): Promise<Partial<Record<ShortcutCommand, string>>> {
+  try {
+    const commands = await chrome.commands.getAll()
+    return Object.fromEntries(commands.filter((c) => c.name).map((c) => [c.name, c.shortcut || ""]))
+  } catch (e) {
+    console.warn("Could not read keyboard shortcuts", e)
+    return {}
+  }
+}
+
+// chrome:// URLs can't be opened with a link, only through the tabs API
+export function openShortcutSettings() {
+  chrome.tabs.create({ url: SHORTCUTS_PAGE_URL })
+}
@@ -0,0 +1,143 @@
+// Compositing and encoding of captures in a worker, so stitching a long page doesn't
+// freeze it. The worker runs from a blob URL on the page's origin; pages whose CSP
+// forbids that get the same drawing on the main thread instead.
+
+import { encodeCanvas, mimeTypeFor, type OutputFormat } from "~lib/image-format"
+
+// One tile drawn into the output: source rect in the tile's image px, destination in output px
+export interface DrawOp {
+  image: Blob
+  sx: number
+  sy: number
+  sw: number
+  sh: number
+  dx: number
+  dy: number
+  dw: number
+  dh: number
+}
+
+export interface StitchJob {
+  width: number // output px
+  height: number
+  draws: DrawOp[]
+}
+
+export type StitchProgress = (drawn: number, total: number) => void
+
+// Runs inside the worker, serialized with toString(), so it must not use anything outside its body
+function workerMain() {
+  const scope = self as unknown as Worker
+  let canvas: OffscreenCanvas | null = null
+  let ctx: OffscreenCanvasRenderingContext2D | null = null
+  let drawn = 0
+  scope.onmessage = async (event: MessageEvent) => {
+    const msg = event.data
+    try {
+      if (msg.type === "begin") {
+        canvas = new OffscreenCanvas(msg.width, msg.height)
+        ctx = canvas.getContext("2d")
+        drawn = 0
+      } else if (msg.type === "draw") {
+        ctx!.drawImage(msg.bitmap, msg.dx, msg.dy, msg.dw, msg.dh)
+        msg.bitmap.close()
+        scope.postMessage({ type: "drawn", drawn: ++drawn })
+      } else if (msg.type === "encode") {
+        if (msg.mime === "image/jpeg") {
+          // JPEG has no alpha; paint uncovered pixels white instead of black
+          ctx!.globalCompositeOperation = "destination-over"
+          ctx!.fillStyle = "#ffffff"
+          ctx!.fillRect(0, 0, canvas!.width, canvas!.height)
+        }
+        const blob = await canvas!.convertToBlob({ type: msg.mime, quality: msg.quality })
+        canvas = null
+        ctx = null
+        scope.postMessage({ type: "encoded", blob })
+      }
+    } catch (error) {
+      scope.postMessage({ type: "error", message: error.message || String(error) })
+    }
+  }
+}
+
+// undefined until first use, null once the page has refused it
+let worker: Worker | null | undefined
+// One job at a time; the worker holds a single canvas
+let queue: Promise<unknown> = Promise.resolve()
+
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker
+  try {
+    const url = URL.createObjectURL(new Blob([`(${workerMain.toString()})()`], { type: "text/javascript" }))
+    worker = new Worker(url)
+  } catch (e) {
+    console.warn("Stitching worker unavailable, using the main thread", e)
+    worker = null
+  }
+  return worker
+}
+
+async function runInWorker(w: Worker, job: StitchJob, output: OutputFormat, onProgress?: StitchProgress): Promise<Blob> {
+  const total = job.draws.length
+  const encoded = new Promise<Blob>((resolve, reject) => {
+    w.onmessage = (event) => {
+      const msg = event.data
+      if (msg.type === "drawn") onProgress?.(msg.drawn, total)
+      else if (msg.type === "encoded") resolve(msg.blob)
+      else if (msg.type === "error") reject(new Error(msg.message))
+    }
+    w.onerror = (event) => {
+      event.preventDefault()
+      reject(new Error(event.message || "Stitching worker failed to start"))
+    }
+  })
+  w.postMessage({ type: "begin", width: job.width, height: job.height })
+  for (const d of job.draws) {
+    // Decoding and cropping happen off the main thread; the bitmap is moved, not copied
+    const bitmap = await createImageBitmap(d.image, d.sx, d.sy, d.sw, d.sh)
+    w.postMessage({ type: "draw", bitmap, dx: d.dx, dy: d.dy, dw: d.dw, dh: d.dh }, [bitmap])
+  }
+  w.postMessage({ type: "encode", mime: mimeTypeFor(output.format), quality: output.quality })
+  return encoded
+}
+
+async function runOnMainThread(job: StitchJob, output: OutputFormat, onProgress?: StitchProgress): Promise<Blob> {
+  const canvas = document.createElement("canvas")
+  canvas.width = job.width
+  canvas.height = job.height
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Could not get canvas context")
+  for (const [i, d] of job.draws.entries()) {
+    const bitmap = await createImageBitmap(d.image, d.sx, d.sy, d.sw, d.sh)
+    ctx.drawImage(bitmap, d.dx, d.dy, d.dw, d.dh)
+    bitmap.close()
+    onProgress?.(i + 1, job.draws.length)
+  }
+  try {
+    return await encodeCanvas(canvas, output)
+  } finally {
+    // Free the pixels now rather than at the next garbage collection
+    canvas.width = canvas.height = 0
+  }
+}
+
+/** Draws `job` and encodes it as `output`, in the worker when the page allows one. */
+export function renderStitch(job: StitchJob, output: OutputFormat, onProgress?: StitchProgress): Promise<Blob> {
+  const run = async () => {
+    const w = getWorker()
+    if (w) {
+      try {
+        return await runInWorker(w, job, output, onProgress)
+      } catch (e) {
+        // A CSP block only shows up as an error event; don't try the worker again on this page
+        console.warn("Stitching in the worker failed, retrying on the main thread", e)
+        w.terminate()
+        worker = null
+      }
+    }
+    return runOnMainThread(job, output, onProgress)
+  }
+  const result = queue.then(run, run)
+  queue = result.catch(() => {})
+  return result
+}
@@ -0,0 +1,65 @@
+// Moving capture images between the content script, the background and its offscreen document as Blobs.
+// Extension messages are JSON, with no binary type and a 64 MiB cap per message, so
+// images attached to a message cross a long-lived port in 1 MiB slices. Only a slice
+// is ever base64 at a time; both ends hold the image as a Blob.
+
+import { base64ToBytes, bytesToBase64 } from "~lib/image-format"
+import { createRequestId, type ExtensionMessage } from "~lib/messages"
+
+export const TRANSFER_PORT = "capture-transfer"
+// The same framing between the background and its offscreen document
+export const OFFSCREEN_PORT = "offscreen-transfer"
+
+const CHUNK_BYTES = 1024 * 1024
+
+// What actually goes over the port. Frames of one message arrive in order; frames of
+// concurrent messages may interleave and are told apart by id.
+type Frame =
+  | { kind: "message"; id: string; message: ExtensionMessage; types: string[] }
+  | { kind: "chunk"; id: string; index: number; data: string }
+  | { kind: "end"; id: string }
+
+interface Incoming {
+  message: ExtensionMessage
+  types: string[]
+  parts: Uint8Array[][]
+}
+
+export type BlobMessageHandler = (message: ExtensionMessage, blobs: Blob[]) => void
+
+export class BlobPort {
+  private incoming = new Map<string, Incoming>()
+
+  constructor(readonly port: chrome.runtime.Port, onMessage: BlobMessageHandler) {
+    port.onMessage.addListener((frame: Frame) => {
+      if (frame.kind === "message") {
+        this.incoming.set(frame.id, { message: frame.message, types: frame.types, parts: frame.types.map(() => []) })
+      } else if (frame.kind === "chunk") {
+        this.incoming.get(frame.id)?.parts[frame.index].push(base64ToBytes(frame.data))
+      } else if (frame.kind === "end") {
+        const received = this.incoming.get(frame.id)
+        if (!received) return
+        this.incoming.delete(frame.id)
+        onMessage(received.message, received.parts.map((parts, i) => new Blob(parts, { type: received.types[i] })))
+      }
+    })
+    port.onDisconnect.addListener(() => this.incoming.clear())
+  }
+
+  /** Sends `message` with `blobs` attached. Throws if the port is disconnected midway. */
+  async send(message: ExtensionMessage, blobs: Blob[] = []): Promise<void> {
+    const id = createRequestId()
+    this.post({ kind: "message", id, message, types: blobs.map((b) => b.type) })
+    for (const [index, blob] of blobs.entries()) {
+      for (let offset = 0; offset < blob.size; offset += CHUNK_BYTES) {
+        const bytes = new Uint8Array(await blob.slice(offset, offset + CHUNK_BYTES).arrayBuffer())
+        this.post({ kind: "chunk", id, index, data: bytesToBase64(bytes) })
+      }
+    }
+    this.post({ kind: "end", id })
+  }
+
+  private post(frame: Frame) {
+    this.port.postMessage(frame)
+  }
+}
@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react"
+
+import {
+  DEFAULT_SETTINGS,
+  flushSettings,
+  getSettings,
+  importLegacySettings,
+  onSettingsChanged,
+  updateSettings,
+  type Settings,
+  type SettingsPatch
+} from "~lib/settings"
+
+/**
+ * Live settings for extension pages. `loaded` is false until storage has been
+ * read, so pages can avoid flashing defaults; `update` applies optimistically.
+ */
+export function useSettings(): { settings: Settings; loaded: boolean; update: (patch: SettingsPatch) => void } {
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS)
+  const [loaded, setLoaded] = useState(false)
+
+  useEffect(() => {
+    let active = true
+    importLegacySettings()
+      .catch((e) => console.warn("Could not import old popup settings", e))
+      .then(getSettings)
+      .catch((e) => {
+        // Show the defaults rather than a page stuck loading
+        console.error("Could not read settings, showing defaults", e)
+        return DEFAULT_SETTINGS
+      })
+      .then((value) => {
+        if (!active) return
+        setSettings(value)
+        setLoaded(true)
+      })
+    const unsubscribe = onSettingsChanged((value) => active && setSettings(value))
+    // Closing the page must not drop a change that is still waiting to be written
+    const flush = () => {
+      flushSettings()
+    }
+    window.addEventListener("pagehide", flush)
+    return () => {
+      active = false
+      unsubscribe()
+      window.removeEventListener("pagehide", flush)
+    }
+  }, [])
+
+  const update = (patch: SettingsPatch) => {
+    updateSettings(patch)
+      .then(setSettings)
+      .catch((e) => console.error("Could not save settings", e))
+  }
+
+  return { settings, loaded, update }
+}
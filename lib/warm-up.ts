@@ -0,0 +1,112 @@
+// Warm-up pass that scrolls through a page so lazy-loaded content is present before capture
+
+import type { ScrollTarget } from "~lib/scroll-target"
+
+export interface WarmUpOptions {
+  // Stop growing beyond this content height (CSS px); guards against infinite feeds
+  maxHeight?: number
+  // Quiet period without new network requests that counts as idle
+  idleMs?: number
+  // Upper bound for waiting on the network / image decoding at each step
+  stepTimeoutMs?: number
+  // Stops the pass early (capture cancelled)
+  signal?: AbortSignal
+}
+
+export interface WarmUpResult {
+  height: number
+  // True when maxHeight was reached before the page stopped growing
+  capped: boolean
+}
+
+export const DEFAULT_WARM_UP_MAX_HEIGHT = 30000
+
+const sleep = (ms: number) => new Promise<void>((r) => setTimeout(r, ms))
+const nextFrame = () => new Promise<void>((r) => requestAnimationFrame(() => r()))
+
+// Time of the last finished network request. An observer is used because the resource
+// timing buffer stops at 250 entries on its own, long before a heavy page is done loading.
+function watchNetwork() {
+  const activity = { last: performance.now(), disconnect: () => {} }
+  try {
+    const observer = new PerformanceObserver(() => {
+      activity.last = performance.now()
+    })
+    observer.observe({ type: "resource" })
+    activity.disconnect = () => observer.disconnect()
+  } catch (e) {
+    console.warn("Resource timing unavailable, network idle can't be detected", e)
+  }
+  return activity
+}
+
+// Resolves once no request finished for `idleMs` (or after `timeoutMs`)
+async function waitForNetworkIdle(activity: { last: number }, idleMs: number, timeoutMs: number) {
+  const start = performance.now()
+  while (performance.now() - start < timeoutMs) {
+    await sleep(100)
+    if (performance.now() - activity.last >= idleMs) return
+  }
+}
+
+// Decodes <img> elements currently intersecting the viewport that haven't been decoded yet
+async function decodeVisibleImages(seen: WeakSet<HTMLImageElement>, timeoutMs: number) {
+  const vh = window.innerHeight
+  const vw = window.innerWidth
+  const pending: Promise<unknown>[] = []
+  for (const img of Array.from(document.images)) {
+    if (seen.has(img)) continue
+    const r = img.getBoundingClientRect()
+    if (r.bottom < 0 || r.top > vh || r.right < 0 || r.left > vw || !r.width || !r.height) continue
+    seen.add(img)
+    if (img.loading === "lazy") img.loading = "eager"
+    pending.push(img.decode().catch(() => {}))
+  }
+  if (!pending.length) return
+  await Promise.race([Promise.all(pending), sleep(timeoutMs)])
+}
+
+/**
+ * Scrolls `target` from top to bottom one viewport at a time, waiting for
+ * network idle and image decoding at each step, and keeps re-measuring the
+ * content height until it stops growing or hits `maxHeight`. The original
+ * scroll position is restored before returning.
+ */
+export async function warmUpScroll(
+  target: ScrollTarget,
+  options: WarmUpOptions = {}
+): Promise<WarmUpResult> {
+  const maxHeight = options.maxHeight || DEFAULT_WARM_UP_MAX_HEIGHT
+  const idleMs = options.idleMs ?? 400
+  const stepTimeoutMs = options.stepTimeoutMs ?? 3000
+  const original = target.getScroll()
+  const step = Math.max(1, target.getClip().height)
+  const seen = new WeakSet<HTMLImageElement>()
+  const network = watchNetwork()
+
+  let height = target.getScrollSize().height
+  let y = 0
+  try {
+    while (!options.signal?.aborted) {
+      target.scrollTo(original.x, Math.min(y, maxHeight))
+      await nextFrame()
+      await waitForNetworkIdle(network, idleMs, stepTimeoutMs)
+      await decodeVisibleImages(seen, stepTimeoutMs)
+
+      height = target.getScrollSize().height
+      if (height >= maxHeight) {
+        console.log(`Warm-up stopped at cap ${maxHeight}px (page is ${height}px and may keep growing)`)
+        return { height: maxHeight, capped: true }
+      }
+      // Reached the bottom and the height did not grow after waiting
+      if (y + step >= height) break
+      y += step
+    }
+    console.log(`Warm-up finished, page height settled at ${height}px`)
+    return { height, capped: false }
+  } finally {
+    network.disconnect()
+    target.scrollTo(original.x, original.y)
+    await nextFrame()
+  }
+}
@@ -0,0 +1,332 @@
+import { useEffect, useState } from "react"
+
+import type { FullPageEngine } from "~lib/cdp-capture"
+import { downloadPath, FILENAME_TOKENS } from "~lib/downloads"
+import type { ElementMask } from "~lib/element-picker"
+import type { FixedElementMode } from "~lib/fixed-elements"
+import type { CaptureMode } from "~lib/history"
+import { extensionForMimeType, mimeTypeFor, type ImageFormat } from "~lib/image-format"
+import type { PdfPageSize } from "~lib/pdf"
+import type { ResponsiveLayout } from "~lib/responsive"
+import { resetSettings, type Theme } from "~lib/settings"
+import {
+  getShortcuts,
+  openShortcutSettings,
+  FULL_PAGE_SINGLE_SHOT,
+  REPEAT_LAST_CAPTURE,
+  type ShortcutCommand
+} from "~lib/shortcuts"
+import { useSettings } from "~lib/use-settings"
+
+const SHORTCUT_LABELS: Record<Exclude<ShortcutCommand, "capture-scroll-container">, string> = {
+  "capture-visible-area": "Capture visible area",
+  "capture-full-page": "Capture full page",
+  [FULL_PAGE_SINGLE_SHOT]: "Capture full page (single shot)",
+  "capture-region": "Capture region",
+  "capture-element": "Capture element",
+  "capture-responsive": "Capture at device widths",
+  [REPEAT_LAST_CAPTURE]: "Repeat last capture"
+}
+
+const MODE_LABELS: Record<CaptureMode, string> = {
+  visible: "Visible area",
+  full: "Full page",
+  region: "Region",
+  element: "Element",
+  responsive: "Responsive"
+}
+
+const controlStyle: React.CSSProperties = {
+  background: "#111416",
+  color: "#e7eaec",
+  border: "1px solid #232a30",
+  borderRadius: 6,
+  fontSize: 12.5,
+  padding: "5px 8px"
+}
+
+const sectionStyle: React.CSSProperties = {
+  background: "#151b20",
+  border: "1px solid #1e2429",
+  borderRadius: 12,
+  padding: "14px 16px",
+  marginBottom: 16
+}
+
+function Section({ title, action, children }: { title: string; action?: React.ReactNode; children: React.ReactNode }) {
+  return (
+    <section style={sectionStyle}>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 10 }}>
+        <div style={{ fontSize: 14, fontWeight: 600 }}>{title}</div>
+        {action}
+      </div>
+      {children}
+    </section>
+  )
+}
+
+function Row({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) {
+  return (
+    <label style={{ display: "flex", alignItems: "center", justifyContent: "space-between", gap: 12, fontSize: 12.5, padding: "7px 0", borderTop: "1px solid #1e2429" }}>
+      <span>
+        {label}
+        {hint && <span style={{ display: "block", fontSize: 11, color: "#7f8a93", marginTop: 2 }}>{hint}</span>}
+      </span>
+      <span style={{ display: "flex", alignItems: "center", gap: 6, flexShrink: 0 }}>{children}</span>
+    </label>
+  )
+}
+
+function NumberInput({ value, onChange, min, max, step = 1, unit }: { value: number; onChange: (value: number) => void; min: number; max: number; step?: number; unit?: string }) {
+  return (
+    <>
+      <input
+        type="number"
+        value={value}
+        min={min}
+        max={max}
+        step={step}
+        onChange={(e) => e.target.value !== "" && onChange(Number(e.target.value))}
+        style={{ ...controlStyle, width: 80 }}
+      />
+      {unit && <span style={{ color: "#7f8a93", fontSize: 11.5, width: 22 }}>{unit}</span>}
+    </>
+  )
+}
+
+function OptionsPage() {
+  const { settings, loaded, update } = useSettings()
+  const [shortcuts, setShortcuts] = useState<Partial<Record<ShortcutCommand, string>>>({})
+  // Edited as free text; saved as a list
+  const [selectors, setSelectors] = useState("")
+  const [widths, setWidths] = useState("")
+
+  useEffect(() => {
+    getShortcuts().then(setShortcuts)
+    // Pick up changes made on Chrome's shortcuts page when the user comes back
+    const refresh = () => {
+      if (document.visibilityState === "visible") getShortcuts().then(setShortcuts)
+    }
+    document.addEventListener("visibilitychange", refresh)
+    return () => document.removeEventListener("visibilitychange", refresh)
+  }, [])
+
+  useEffect(() => {
+    if (!loaded) return
+    setSelectors(settings.redactSelectors.join("\n"))
+    setWidths(settings.responsive.widths.join(", "))
+  }, [loaded])
+
+  const reset = async () => {
+    if (!confirm("Reset all settings to their defaults?")) return
+    const defaults = await resetSettings()
+    setSelectors(defaults.redactSelectors.join("\n"))
+    setWidths(defaults.responsive.widths.join(", "))
+  }
+
+  if (!loaded) return null
+
+  const filenameExample = downloadPath(
+    settings.download,
+    {
+      prefix: settings.filenamePrefixes.full,
+      mode: "full",
+      url: "https://www.example.com/docs",
+      title: "Example Docs",
+      width: 1280,
+      height: 4200,
+      capturedAt: new Date()
+    },
+    extensionForMimeType(mimeTypeFor(settings.output.format))
+  )
+
+  return (
+    <div style={{ minHeight: "100vh", background: "#111416", color: "#e7eaec", padding: "24px 32px", fontFamily: "system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif", boxSizing: "border-box", maxWidth: 680 }}>
+      <style>{`html,body{margin:0;background:#111416;} button:hover:not([disabled]){background:#1b2329 !important;} button:focus-visible,select:focus-visible,input:focus-visible,textarea:focus-visible{outline:2px solid #2563eb;outline-offset:2px;}`}</style>
+      <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 18 }}>
+        <div style={{ fontSize: 18, fontWeight: 600, letterSpacing: 0.4 }}>Settings</div>
+        <button onClick={reset} style={{ ...controlStyle, cursor: "pointer" }}>Reset to defaults</button>
+      </div>
+
+      <Section title="Capture">
+        <Row label="Full page engine" hint="Single shot renders the whole page at once through DevTools and falls back to scrolling when it can't attach">
+          <select value={settings.fullPageEngine} onChange={(e) => update({ fullPageEngine: e.target.value as FullPageEngine })} style={controlStyle}>
+            <option value="stitch">Scroll &amp; stitch</option>
+            <option value="cdp">Single shot</option>
+          </select>
+        </Row>
+        <Row label="Sticky headers (full page)">
+          <select value={settings.fixedElements} onChange={(e) => update({ fixedElements: e.target.value as FixedElementMode })} style={controlStyle}>
+            <option value="first">At the top only</option>
+            <option value="last">At the bottom only</option>
+            <option value="hide">Hide</option>
+            <option value="keep">Keep in every tile</option>
+          </select>
+        </Row>
+        <Row label="Load lazy content first" hint="Scrolls the page once before capturing so lazy images load">
+          <input type="checkbox" checked={settings.warmUp} onChange={(e) => update({ warmUp: e.target.checked })} />
+        </Row>
+        <Row label="Lazy loading height limit" hint="Stops infinite feeds from loading forever">
+          <NumberInput value={settings.warmUpMaxHeight} min={1000} max={500000} step={1000} unit="px" onChange={(warmUpMaxHeight) => update({ warmUpMaxHeight })} />
+        </Row>
+        <Row label="Delay before each tile" hint="Time for the page to render after scrolling">
+          <NumberInput value={settings.tileDelayMs} min={0} max={5000} step={50} unit="ms" onChange={(tileDelayMs) => update({ tileDelayMs })} />
+        </Row>
+        <Row label="Delay before each region tile">
+          <NumberInput value={settings.regionTileDelayMs} min={0} max={5000} step={50} unit="ms" onChange={(regionTileDelayMs) => update({ regionTileDelayMs })} />
+        </Row>
+        <Row label="Wait after a rate-limited tile">
+          <NumberInput value={settings.rateLimitRetryMs} min={0} max={10000} step={100} unit="ms" onChange={(rateLimitRetryMs) => update({ rateLimitRetryMs })} />
+        </Row>
+      </Section>
+
+      <Section title="Output">
+        <Row label="Image format">
+          {settings.output.format !== "png" && (
+            <NumberInput value={Math.round(settings.output.quality * 100)} min={5} max={100} step={5} unit="%" onChange={(quality) => update({ output: { quality: quality / 100 } })} />
+          )}
+          <select value={settings.output.format} onChange={(e) => update({ output: { format: e.target.value as ImageFormat } })} style={controlStyle}>
+            <option value="png">PNG</option>
+            <option value="jpeg">JPEG</option>
+            <option value="webp">WebP</option>
+          </select>
+        </Row>
+        <Row label="Compress for clipboard above" hint="The clipboard always receives PNG; larger images are scaled down first">
+          <NumberInput value={settings.clipboardCompressMB} min={1} max={100} unit="MB" onChange={(clipboardCompressMB) => update({ clipboardCompressMB })} />
+        </Row>
+        <Row label="File name" hint={`Tokens: ${FILENAME_TOKENS.join(" ")}. Example: ${filenameExample}`}>
+          <input
+            type="text"
+            value={settings.download.template}
+            onChange={(e) => update({ download: { template: e.target.value } })}
+            style={{ ...controlStyle, width: 200 }}
+          />
+        </Row>
+        <Row label="Subfolder" hint="Inside your download folder. Tokens work here too, e.g. Screenshots/{domain}">
+          <input
+            type="text"
+            value={settings.download.subfolder}
+            placeholder="Screenshots"
+            onChange={(e) => update({ download: { subfolder: e.target.value } })}
+            style={{ ...controlStyle, width: 200 }}
+          />
+        </Row>
+        <Row label="Ask where to save each file">
+          <input type="checkbox" checked={settings.download.saveAs} onChange={(e) => update({ download: { saveAs: e.target.checked } })} />
+        </Row>
+        {(Object.keys(MODE_LABELS) as CaptureMode[]).map((mode) => (
+          <Row key={mode} label={`File name prefix: ${MODE_LABELS[mode]}`}>
+            <input
+              type="text"
+              value={settings.filenamePrefixes[mode]}
+              onChange={(e) => update({ filenamePrefixes: { [mode]: e.target.value } })}
+              style={{ ...controlStyle, width: 200 }}
+            />
+          </Row>
+        ))}
+      </Section>
+
+      <Section title="PDF">
+        <Row label="Page size">
+          <select value={settings.pdf.pageSize} onChange={(e) => update({ pdf: { pageSize: e.target.value as PdfPageSize } })} style={controlStyle}>
+            <option value="a4">A4</option>
+            <option value="letter">Letter</option>
+          </select>
+        </Row>
+        <Row label="Margins">
+          <NumberInput value={settings.pdf.marginMm} min={0} max={50} unit="mm" onChange={(marginMm) => update({ pdf: { marginMm } })} />
+        </Row>
+      </Section>
+
+      <Section title="Element capture">
+        <Row label="Padding">
+          <NumberInput value={settings.element.padding} min={0} max={200} unit="px" onChange={(padding) => update({ element: { padding } })} />
+        </Row>
+        <Row label="Mask">
+          <select value={settings.element.mask} onChange={(e) => update({ element: { mask: e.target.value as ElementMask } })} style={controlStyle}>
+            <option value="none">No mask</option>
+            <option value="transparent">Element shape only</option>
+            <option value="rounded">Rounded corners</option>
+          </select>
+        </Row>
+      </Section>
+
+      <Section title="Responsive capture">
+        <Row label="Widths" hint="CSS px, captured in this order (up to 6)">
+          <input
+            type="text"
+            value={widths}
+            placeholder="375, 768, 1440"
+            onChange={(e) => {
+              setWidths(e.target.value)
+              const list = e.target.value.split(/[\s,]+/).filter(Boolean).map(Number)
+              if (list.length && list.every(Number.isFinite)) update({ responsive: { widths: list } })
+            }}
+            style={{ ...controlStyle, width: 200 }}
+          />
+        </Row>
+        <Row label="Result">
+          <select value={settings.responsive.layout} onChange={(e) => update({ responsive: { layout: e.target.value as ResponsiveLayout } })} style={controlStyle}>
+            <option value="composite">Side by side in one image</option>
+            <option value="separate">One image per width</option>
+          </select>
+        </Row>
+      </Section>
+
+      <Section title="Redaction">
+        <div style={{ fontSize: 11.5, color: "#7f8a93", marginBottom: 8 }}>
+          Password fields, email addresses and phone numbers are always suggested. Add CSS selectors (one per line or comma-separated) for anything else.
+        </div>
+        <textarea
+          value={selectors}
+          rows={4}
+          placeholder={".customer-name\n[data-private]"}
+          onChange={(e) => {
+            setSelectors(e.target.value)
+            update({ redactSelectors: e.target.value.split(/[\n,]/) })
+          }}
+          style={{ ...controlStyle, width: "100%", boxSizing: "border-box", fontFamily: "ui-monospace, monospace", resize: "vertical" }}
+        />
+      </Section>
+
+      <Section title="History">
+        <Row label="Storage limit" hint="Least recently used captures are removed beyond this size">
+          <NumberInput value={settings.historyQuotaMB} min={10} max={10000} step={10} unit="MB" onChange={(historyQuotaMB) => update({ historyQuotaMB })} />
+        </Row>
+      </Section>
+
+      <Section title="Appearance">
+        <Row label="Popup theme">
+          <select value={settings.theme} onChange={(e) => update({ theme: e.target.value as Theme })} style={controlStyle}>
+            <option value="dark">Dark</option>
+            <option value="light">Light</option>
+          </select>
+        </Row>
+      </Section>
+
+      <Section
+        title="Keyboard shortcuts"
+        action={
+          <button onClick={openShortcutSettings} style={{ ...controlStyle, cursor: "pointer" }}>
+            Change shortcuts
+          </button>
+        }>
+        {(Object.keys(SHORTCUT_LABELS) as (keyof typeof SHORTCUT_LABELS)[]).map((name) => (
+          <div key={name} style={{ display: "flex", justifyContent: "space-between", fontSize: 12.5, padding: "7px 0", borderTop: "1px solid #1e2429" }}>
+            <span>{SHORTCUT_LABELS[name]}</span>
+            {shortcuts[name] ? (
+              <kbd style={{ fontFamily: "inherit", fontSize: 11.5, border: "1px solid #232a30", borderRadius: 4, padding: "1px 6px" }}>{shortcuts[name]}</kbd>
+            ) : (
+              <span style={{ color: "#7f8a93" }}>Not set</span>
+            )}
+          </div>
+        ))}
+        <div style={{ fontSize: 11.5, color: "#7f8a93", marginTop: 8 }}>
+          Shortcuts use the settings on this page. Chrome manages the key bindings on its own shortcuts page.
+        </div>
+      </Section>
+    </div>
+  )
+}
+
+export default OptionsPage
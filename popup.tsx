@@ -1,16 +1,76 @@
 import { useState, useEffect } from "react"
 
+import type { FullPageEngine } from "~lib/cdp-capture"
+import type { ElementMask } from "~lib/element-picker"
+import type { FixedElementMode } from "~lib/fixed-elements"
+import { listCaptures, type CaptureSummary } from "~lib/history"
+import type { ImageFormat } from "~lib/image-format"
+import type { ExtensionMessage } from "~lib/messages"
+import { flushSettings, type Theme } from "~lib/settings"
+import { getShortcuts, type ShortcutCommand } from "~lib/shortcuts"
+import { useSettings } from "~lib/use-settings"
+import { DEFAULT_WARM_UP_MAX_HEIGHT } from "~lib/warm-up"
+
+const RECENT_CAPTURES = 4
+const GALLERY_URL = "tabs/gallery.html"
+
+const PALETTES: Record<Theme, Record<string, string>> = {
+  dark: {
+    '--bg': '#111416',
+    '--panel': '#151b20',
+    '--panel-disabled': '#1a2126',
+    '--hover': '#1b2329',
+    '--active': '#202a31',
+    '--thumb-bg': '#0f1214',
+    '--border': '#1e2429',
+    '--border-soft': '#232a30',
+    '--text': '#e7eaec',
+    '--text-dim': '#7f8a93'
+  },
+  light: {
+    '--bg': '#f6f7f8',
+    '--panel': '#ffffff',
+    '--panel-disabled': '#eef0f2',
+    '--hover': '#eef1f3',
+    '--active': '#e3e7ea',
+    '--thumb-bg': '#e9ecef',
+    '--border': '#dfe3e6',
+    '--border-soft': '#d5dade',
+    '--text': '#1c2227',
+    '--text-dim': '#5f6b74'
+  }
+}
+
 function IndexPopup() {
   const [isCapturing, setIsCapturing] = useState(false)
   const [status, setStatus] = useState("")
-  const [mode, setMode] = useState<"visible" | "full" | "region" | null>(null)
-  // Force dark minimal mode
-  const dark = true
+  const [mode, setMode] = useState<"visible" | "full" | "region" | "element" | "container" | "responsive" | null>(null)
+  const { settings, loaded, update } = useSettings()
+  const { output, warmUp, warmUpMaxHeight: warmUpMax, fixedElements: fixedMode } = settings
+  // Kept as typed so commas and spaces survive; parsed into the list on every change
+  const [redactSelectors, setRedactSelectors] = useState("")
+  useEffect(() => {
+    if (loaded) setRedactSelectors(settings.redactSelectors.join(", "))
+  }, [loaded])
+  const [recent, setRecent] = useState<CaptureSummary[]>([])
+  const [shortcuts, setShortcuts] = useState<Partial<Record<ShortcutCommand, string>>>({})
   const compact = false
 
+  useEffect(() => {
+    getShortcuts().then(setShortcuts)
+    listCaptures()
+      .then((list) => setRecent(list.slice(0, RECENT_CAPTURES)))
+      .catch((e) => console.warn("Could not load recent captures", e))
+  }, [])
+
+  const openGallery = () => {
+    chrome.tabs.create({ url: chrome.runtime.getURL(GALLERY_URL) })
+    window.close()
+  }
+
   // Listen for messages from content script
   useEffect(() => {
-    const messageListener = (message: any) => {
+    const messageListener = (message: ExtensionMessage) => {
       if (message.action === "capture-complete") {
         setIsCapturing(false)
         setStatus("✅ Screenshot captured and copied to clipboard!")
@@ -23,6 +83,9 @@ function IndexPopup() {
         setStatus("❌ Capture failed: " + (message.error || "Unknown error"))
       } else if (message.action === "capture-progress") {
         setStatus(message.message || "Capturing...")
+      } else if (message.action === "capture-dispatched") {
+        // The page has taken over; get out of the way of pickers and scrolling
+        window.close()
       }
     }
 
@@ -33,39 +96,46 @@ function IndexPopup() {
     }
   }, [])
 
-  const initiateCapture = async (mode: "visible" | "full" | "region" = "visible") => {
+  const initiateCapture = async (mode: "visible" | "full" | "region" | "element" | "container" | "responsive" = "visible") => {
     if (isCapturing) return
     setIsCapturing(true)
     setMode(mode)
-    // Close regardless of success so selecting an option always dismisses popup
-    const closeSoon = () => { try { window.close() } catch(_) {} }
-    setTimeout(closeSoon, 30)
+    // The popup closes once the background reports "capture-dispatched", or stays open to show why it couldn't start
+    // Capture options come from the synced settings, which the content script reads itself,
+    // so a change made just before clicking has to be stored first
     try {
+      await flushSettings()
       if (mode === 'visible') {
         setStatus('Capturing visible area...')
         chrome.runtime.sendMessage({ action: 'capture-visible-area' }).catch(()=>{})
       } else if (mode === 'full') {
         setStatus('Capturing full page...')
-        chrome.runtime.sendMessage({ action: 'capture-full-page' }).catch(()=>{})
+        chrome.runtime.sendMessage({ action: 'capture-full-page', engine: settings.fullPageEngine }).catch(()=>{})
       } else if (mode === 'region') {
         setStatus('Select region on page...')
         chrome.runtime.sendMessage({ action: 'capture-region' }).catch(()=>{})
+      } else if (mode === 'element') {
+        setStatus('Pick an element on page...')
+        chrome.runtime.sendMessage({ action: 'capture-element' }).catch(()=>{})
+      } else if (mode === 'container') {
+        setStatus('Pick a scrollable area on page...')
+        chrome.runtime.sendMessage({ action: 'capture-scroll-container' }).catch(()=>{})
+      } else if (mode === 'responsive') {
+        setStatus('Starting device emulation...')
+        chrome.runtime.sendMessage({ action: 'capture-responsive' }).catch(()=>{})
       }
     } catch (error) {
-      // Even on error we already scheduled close
       console.error('Capture initiation failed:', error)
+      setIsCapturing(false)
+      setStatus('❌ Capture failed: ' + error.message)
     }
   }
 
   const rootStyle: React.CSSProperties = {
-    '--bg': '#111416',
-    '--border': '#1e2429',
-    '--border-soft': '#232a30',
-    '--text': '#e7eaec',
-    '--text-dim': '#7f8a93',
+    ...PALETTES[settings.theme],
     '--focus': '#2563eb',
-    background: '#111416',
-    color: '#e7eaec',
+    background: 'var(--bg)',
+    color: 'var(--text)',
     padding: 14,
     minWidth: 280,
     fontFamily: "system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif"
@@ -75,15 +145,18 @@ function IndexPopup() {
 
   return (
     <div style={rootStyle}>
-      <style>{`html,body{margin:0;padding:0;background:#111416 !important;} body{min-width:0;} ::selection{background:#2563eb33;} `}</style>
+      <style>{`html,body{margin:0;padding:0;background:${PALETTES[settings.theme]['--bg']} !important;} body{min-width:0;} ::selection{background:#2563eb33;} `}</style>
       <style>{`
         button:focus-visible { outline: 2px solid var(--focus); outline-offset: 2px; }
         .grid { display:grid; gap:8px; }
         .status-line { font-size:11px; min-height:18px; margin-top:8px; letter-spacing:.2px; }
-        .action-btn:hover:not([disabled]) { background:#1b2329; }
-        .action-btn:active:not([disabled]) { background:#202a31; }
+        .action-btn:hover:not([disabled]) { background:var(--hover); }
+        .action-btn:active:not([disabled]) { background:var(--active); }
       `}</style>
-      <div style={{fontSize:13, fontWeight:600, marginBottom:8, letterSpacing:.4}}>Screenshot</div>
+      <div style={{display:'flex', alignItems:'center', justifyContent:'space-between', marginBottom:8}}>
+        <div style={{fontSize:13, fontWeight:600, letterSpacing:.4}}>Screenshot</div>
+        <button onClick={() => chrome.runtime.openOptionsPage()} title="Settings and keyboard shortcuts" aria-label="Settings" style={{background:'none', border:'none', color:'var(--text-dim)', fontSize:14, cursor:'pointer', padding:0}}>⚙️</button>
+      </div>
       <div className="grid" aria-label="Capture actions">
         <ActionButton
           label="Capture Visible Area"
@@ -92,6 +165,7 @@ function IndexPopup() {
           loading={isCapturing && mode==='visible'}
           disabled={isCapturing}
           onClick={() => initiateCapture('visible')}
+          shortcut={shortcuts['capture-visible-area']}
           compact={compact}
         />
         <ActionButton
@@ -101,6 +175,7 @@ function IndexPopup() {
           loading={isCapturing && mode==='full'}
           disabled={isCapturing}
           onClick={() => initiateCapture('full')}
+          shortcut={shortcuts['capture-full-page']}
           compact={compact}
         />
         <ActionButton
@@ -110,10 +185,165 @@ function IndexPopup() {
           loading={isCapturing && mode==='region'}
           disabled={isCapturing}
           onClick={() => initiateCapture('region')}
+          shortcut={shortcuts['capture-region']}
+          compact={compact}
+        />
+        <ActionButton
+          label="Capture Element"
+          icon="🎯"
+          color="neutral"
+          loading={isCapturing && mode==='element'}
+          disabled={isCapturing}
+          onClick={() => initiateCapture('element')}
+          shortcut={shortcuts['capture-element']}
+          compact={compact}
+        />
+        <ActionButton
+          label="Capture Scrollable Area"
+          icon="🧾"
+          color="neutral"
+          loading={isCapturing && mode==='container'}
+          disabled={isCapturing}
+          onClick={() => initiateCapture('container')}
+          compact={compact}
+        />
+        <ActionButton
+          label={`Capture at ${settings.responsive.widths.join(' / ')} px`}
+          icon="📱"
+          color="neutral"
+          loading={isCapturing && mode==='responsive'}
+          disabled={isCapturing}
+          onClick={() => initiateCapture('responsive')}
+          shortcut={shortcuts['capture-responsive']}
           compact={compact}
         />
       </div>
 
+      <label style={{display:'flex', alignItems:'center', justifyContent:'space-between', gap:8, marginTop:10, fontSize:11.5, color:'var(--text-dim)'}}>
+        Format
+        <span style={{display:'flex', alignItems:'center', gap:6}}>
+          {output.format !== 'png' && (
+            <input
+              type="range"
+              min={10}
+              max={100}
+              step={5}
+              value={Math.round(output.quality * 100)}
+              title={`Quality ${Math.round(output.quality * 100)}%`}
+              aria-label="Quality"
+              onChange={(e) => update({ output: { quality: Number(e.target.value) / 100 } })}
+              style={{width:80}}
+            />
+          )}
+          {output.format !== 'png' && <span style={{width:30, textAlign:'right'}}>{Math.round(output.quality * 100)}%</span>}
+          <select
+            value={output.format}
+            onChange={(e) => update({ output: { format: e.target.value as ImageFormat } })}
+            style={{background:'var(--panel)', color:'var(--text)', border:'1px solid var(--border-soft)', borderRadius:6, fontSize:11.5, padding:'3px 4px'}}>
+            <option value="png">PNG</option>
+            <option value="jpeg">JPEG</option>
+            <option value="webp">WebP</option>
+          </select>
+        </span>
+      </label>
+
+      <label style={{display:'flex', alignItems:'center', justifyContent:'space-between', gap:8, marginTop:8, fontSize:11.5, color:'var(--text-dim)'}} title="Single shot renders the whole page at once through DevTools; scrolling is used if it isn't available">
+        Full page engine
+        <select
+          value={settings.fullPageEngine}
+          onChange={(e) => update({ fullPageEngine: e.target.value as FullPageEngine })}
+          style={{background:'var(--panel)', color:'var(--text)', border:'1px solid var(--border-soft)', borderRadius:6, fontSize:11.5, padding:'3px 4px'}}>
+          <option value="stitch">Scroll &amp; stitch</option>
+          <option value="cdp">Single shot</option>
+        </select>
+      </label>
+
+      <label style={{display:'flex', alignItems:'center', justifyContent:'space-between', gap:8, marginTop:8, fontSize:11.5, color:'var(--text-dim)'}}>
+        Sticky headers (full page)
+        <select
+          value={fixedMode}
+          onChange={(e) => update({ fixedElements: e.target.value as FixedElementMode })}
+          style={{background:'var(--panel)', color:'var(--text)', border:'1px solid var(--border-soft)', borderRadius:6, fontSize:11.5, padding:'3px 4px'}}>
+          <option value="first">At the top only</option>
+          <option value="last">At the bottom only</option>
+          <option value="hide">Hide</option>
+          <option value="keep">Keep in every tile</option>
+        </select>
+      </label>
+
+      <label style={{display:'flex', alignItems:'center', gap:8, marginTop:8, fontSize:11.5, color:'var(--text-dim)'}}>
+        <input
+          type="checkbox"
+          checked={warmUp}
+          onChange={(e) => update({ warmUp: e.target.checked })}
+        />
+        <span style={{flex:1}}>Load lazy content first</span>
+        {warmUp && (
+          <input
+            type="number"
+            min={1000}
+            step={1000}
+            value={warmUpMax}
+            title="Maximum page height to load (px), for infinite feeds"
+            onChange={(e) => update({ warmUpMaxHeight: Math.max(1000, Number(e.target.value) || DEFAULT_WARM_UP_MAX_HEIGHT) })}
+            style={{width:70, background:'var(--panel)', color:'var(--text)', border:'1px solid var(--border-soft)', borderRadius:6, fontSize:11.5, padding:'3px 4px'}}
+          />
+        )}
+      </label>
+
+      <label style={{display:'flex', alignItems:'center', justifyContent:'space-between', gap:8, marginTop:8, fontSize:11.5, color:'var(--text-dim)'}}>
+        Element
+        <span style={{display:'flex', alignItems:'center', gap:6}}>
+          <input
+            type="number"
+            min={0}
+            max={200}
+            value={settings.element.padding}
+            title="Padding around the element (px)"
+            aria-label="Element padding"
+            onChange={(e) => update({ element: { padding: Math.min(200, Math.max(0, Number(e.target.value) || 0)) } })}
+            style={{width:48, background:'var(--panel)', color:'var(--text)', border:'1px solid var(--border-soft)', borderRadius:6, fontSize:11.5, padding:'3px 4px'}}
+          />
+          <span>px</span>
+          <select
+            value={settings.element.mask}
+            aria-label="Element mask"
+            onChange={(e) => update({ element: { mask: e.target.value as ElementMask } })}
+            style={{background:'var(--panel)', color:'var(--text)', border:'1px solid var(--border-soft)', borderRadius:6, fontSize:11.5, padding:'3px 4px'}}>
+            <option value="none">No mask</option>
+            <option value="transparent">Element shape only</option>
+            <option value="rounded">Rounded corners</option>
+          </select>
+        </span>
+      </label>
+
+      <label style={{display:'flex', alignItems:'center', justifyContent:'space-between', gap:8, marginTop:8, fontSize:11.5, color:'var(--text-dim)'}}>
+        Also redact
+        <input
+          type="text"
+          value={redactSelectors}
+          placeholder=".customer-name, [data-private]"
+          title="Comma-separated CSS selectors suggested for redaction, in addition to passwords, emails and phone numbers"
+          onChange={(e) => {
+            setRedactSelectors(e.target.value)
+            update({ redactSelectors: e.target.value.split(',') })
+          }}
+          style={{flex:1, minWidth:0, background:'var(--panel)', color:'var(--text)', border:'1px solid var(--border-soft)', borderRadius:6, fontSize:11.5, padding:'3px 6px'}}
+        />
+      </label>
+
+      {recent.length > 0 && (
+        <div style={{marginTop:12}}>
+          <div style={{display:'flex', justifyContent:'space-between', alignItems:'center', fontSize:11.5, color:'var(--text-dim)', marginBottom:6}}>
+            Recent captures
+            <button onClick={openGallery} style={{background:'none', border:'none', color:'#60a5fa', fontSize:11.5, cursor:'pointer', padding:0}}>View all</button>
+          </div>
+          <div style={{display:'grid', gridTemplateColumns:`repeat(${RECENT_CAPTURES}, 1fr)`, gap:6}}>
+            {recent.map((c) => <RecentThumb key={c.id} capture={c} onClick={openGallery} />)}
+          </div>
+        </div>
+      )}
+
       <div className="status-line" role="status" aria-live="polite" style={{color: status.startsWith('❌')? '#d32f2f': status.startsWith('✅')? '#2e7d32':'var(--text-dim)'}}>
         {status || 'Ready'}
       </div>
@@ -121,8 +351,22 @@ function IndexPopup() {
   )
 }
 
-interface ActionButtonProps { label: string; icon: string | null; color: 'neutral'; onClick: () => void; disabled?: boolean; loading?: boolean; compact?: boolean }
-const ActionButton = ({ label, icon, color, onClick, disabled, loading, compact }: ActionButtonProps) => {
+const RecentThumb = ({ capture, onClick }: { capture: CaptureSummary; onClick: () => void }) => {
+  const [url, setUrl] = useState("")
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(capture.thumbnail)
+    setUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [capture])
+  return (
+    <button onClick={onClick} title={capture.title || capture.url} style={{padding:0, border:'1px solid var(--border-soft)', borderRadius:6, overflow:'hidden', background:'var(--thumb-bg)', cursor:'pointer', height:48}}>
+      {url && <img src={url} alt="" style={{width:'100%', height:'100%', objectFit:'cover', objectPosition:'top', display:'block'}} />}
+    </button>
+  )
+}
+
+interface ActionButtonProps { label: string; icon: string | null; color: 'neutral'; onClick: () => void; disabled?: boolean; loading?: boolean; compact?: boolean; shortcut?: string }
+const ActionButton = ({ label, icon, color, onClick, disabled, loading, compact, shortcut }: ActionButtonProps) => {
   return (
     <button
       onClick={onClick}
@@ -131,7 +375,7 @@ const ActionButton = ({ label, icon, color, onClick, disabled, loading, compact
       style={{
         width:'100%',
         padding:'9px 10px',
-        background: disabled? '#1a2126': '#151b20',
+        background: disabled? 'var(--panel-disabled)': 'var(--panel)',
         color:'var(--text)',
         border:'none',
         borderRadius:10,
@@ -151,6 +395,7 @@ const ActionButton = ({ label, icon, color, onClick, disabled, loading, compact
     >
   {icon && <span style={{opacity: loading? .55:1, fontSize:14, width:18, textAlign:'center'}}>{icon}</span>}
   <span style={{flex:1, textAlign:'left', whiteSpace:'nowrap'}}>{loading? 'Working...' : label}</span>
+  {shortcut && <kbd style={{fontFamily:'inherit', fontSize:10.5, color:'var(--text-dim)', border:'1px solid var(--border-soft)', borderRadius:4, padding:'1px 5px'}}>{shortcut}</kbd>}
     </button>
   )
 }
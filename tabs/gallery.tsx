@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from "react"
+
+import { downloadPath, startDownload } from "~lib/downloads"
+import {
+  deleteCapture,
+  getCapture,
+  listCaptures,
+  type CaptureMode,
+  type CaptureRecord,
+  type CaptureSummary
+} from "~lib/history"
+import { extensionForMimeType } from "~lib/image-format"
+import type { ExtensionMessage } from "~lib/messages"
+import { useSettings } from "~lib/use-settings"
+
+type DateFilter = "any" | "today" | "week" | "month"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const MODE_LABELS: Record<CaptureMode, string> = {
+  visible: "Visible",
+  full: "Full page",
+  region: "Region",
+  element: "Element",
+  responsive: "Responsive"
+}
+
+const domainOf = (url: string) => {
+  try {
+    return new URL(url).hostname
+  } catch (_) {
+    return ""
+  }
+}
+
+const matchesDate = (createdAt: number, filter: DateFilter) => {
+  if (filter === "any") return true
+  if (filter === "today") return createdAt >= new Date().setHours(0, 0, 0, 0)
+  return Date.now() - createdAt <= (filter === "week" ? 7 : 30) * DAY_MS
+}
+
+function Thumbnail({ blob, alt }: { blob: Blob; alt: string }) {
+  const url = useMemo(() => URL.createObjectURL(blob), [blob])
+  useEffect(() => () => URL.revokeObjectURL(url), [url])
+  return <img src={url} alt={alt} style={{ width: "100%", height: 160, objectFit: "cover", objectPosition: "top", display: "block", background: "#0f1214" }} />
+}
+
+function GalleryPage() {
+  const [captures, setCaptures] = useState<CaptureSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [domain, setDomain] = useState("")
+  const [mode, setMode] = useState<CaptureMode | "">("")
+  const [date, setDate] = useState<DateFilter>("any")
+  const [status, setStatus] = useState("")
+  const { settings } = useSettings()
+
+  const refresh = async () => {
+    try {
+      setCaptures(await listCaptures())
+    } catch (e) {
+      setStatus("❌ Could not load capture history: " + e.message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    refresh()
+    // Clipboard copies run in the background's offscreen document and report back here
+    const listener = (message: ExtensionMessage) => {
+      if (message.action === "history-copy-result") {
+        setStatus(message.success ? "✅ Copied to clipboard" : "❌ Copy failed: " + (message.error || "Unknown error"))
+      }
+    }
+    chrome.runtime.onMessage.addListener(listener)
+    return () => chrome.runtime.onMessage.removeListener(listener)
+  }, [])
+
+  const domains = useMemo(
+    () => Array.from(new Set(captures.map((c) => domainOf(c.url)).filter(Boolean))).sort(),
+    [captures]
+  )
+
+  const visible = captures.filter(
+    (c) => (!domain || domainOf(c.url) === domain) && (!mode || c.mode === mode) && matchesDate(c.createdAt, date)
+  )
+
+  const recopy = (capture: CaptureSummary) => {
+    setStatus("Copying...")
+    chrome.runtime.sendMessage({ action: "history-copy", id: capture.id }).catch(() => {})
+  }
+
+  const withBlob = async (capture: CaptureSummary, fn: (url: string, blob: Blob) => void) => {
+    let record: CaptureRecord | null
+    try {
+      record = await getCapture(capture.id)
+    } catch (e) {
+      setStatus("❌ Could not read capture: " + e.message)
+      return
+    }
+    if (!record) {
+      setStatus("❌ Capture no longer exists")
+      refresh()
+      return
+    }
+    const url = URL.createObjectURL(record.blob)
+    fn(url, record.blob)
+    // Give the new tab / download time to read the blob before releasing it
+    setTimeout(() => URL.revokeObjectURL(url), 60000)
+  }
+
+  const download = (capture: CaptureSummary) =>
+    withBlob(capture, (url, blob) => {
+      const filename = downloadPath(
+        settings.download,
+        { ...capture, prefix: settings.filenamePrefixes[capture.mode], capturedAt: new Date(capture.createdAt) },
+        extensionForMimeType(blob.type)
+      )
+      startDownload(url, filename, settings.download.saveAs).catch((e) => setStatus("❌ Download failed: " + e.message))
+    })
+
+  const openFull = (capture: CaptureSummary) => withBlob(capture, (url) => window.open(url, "_blank"))
+
+  const remove = async (capture: CaptureSummary) => {
+    try {
+      await deleteCapture(capture.id)
+    } catch (e) {
+      setStatus("❌ Delete failed: " + e.message)
+      return
+    }
+    setCaptures((list) => list.filter((c) => c.id !== capture.id))
+  }
+
+  const selectStyle: React.CSSProperties = {
+    background: "#151b20",
+    color: "#e7eaec",
+    border: "1px solid #232a30",
+    borderRadius: 8,
+    fontSize: 12.5,
+    padding: "6px 8px"
+  }
+  const actionStyle: React.CSSProperties = {
+    flex: 1,
+    background: "#151b20",
+    border: "none",
+    borderRadius: 8,
+    color: "#e7eaec",
+    fontSize: 11.5,
+    padding: "6px 4px",
+    cursor: "pointer"
+  }
+
+  return (
+    <div style={{ minHeight: "100vh", background: "#111416", color: "#e7eaec", padding: "24px 32px", fontFamily: "system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif", boxSizing: "border-box" }}>
+      <style>{`html,body{margin:0;background:#111416;} button:hover:not([disabled]){background:#1b2329 !important;} button:focus-visible,select:focus-visible{outline:2px solid #2563eb;outline-offset:2px;}`}</style>
+      <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 18, flexWrap: "wrap" }}>
+        <div style={{ fontSize: 18, fontWeight: 600, letterSpacing: 0.4, marginRight: "auto" }}>Captures</div>
+        <select value={domain} onChange={(e) => setDomain(e.target.value)} style={selectStyle} aria-label="Filter by domain">
+          <option value="">All sites</option>
+          {domains.map((d) => (
+            <option key={d} value={d}>{d}</option>
+          ))}
+        </select>
+        <select value={date} onChange={(e) => setDate(e.target.value as DateFilter)} style={selectStyle} aria-label="Filter by date">
+          <option value="any">Any time</option>
+          <option value="today">Today</option>
+          <option value="week">Last 7 days</option>
+          <option value="month">Last 30 days</option>
+        </select>
+        <select value={mode} onChange={(e) => setMode(e.target.value as CaptureMode | "")} style={selectStyle} aria-label="Filter by mode">
+          <option value="">All modes</option>
+          {(Object.keys(MODE_LABELS) as CaptureMode[]).map((m) => (
+            <option key={m} value={m}>{MODE_LABELS[m]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div role="status" aria-live="polite" style={{ fontSize: 12, minHeight: 18, marginBottom: 8, color: status.startsWith("❌") ? "#d32f2f" : status.startsWith("✅") ? "#2e7d32" : "#7f8a93" }}>
+        {status}
+      </div>
+
+      {!loading && !visible.length && (
+        <div style={{ color: "#7f8a93", fontSize: 13 }}>{captures.length ? "No captures match these filters." : "No captures yet."}</div>
+      )}
+
+      <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fill, minmax(220px, 1fr))", gap: 16 }}>
+        {visible.map((c) => (
+          <div key={c.id} style={{ background: "#151b20", border: "1px solid #1e2429", borderRadius: 12, overflow: "hidden", display: "flex", flexDirection: "column" }}>
+            <button onClick={() => openFull(c)} title="Open full size" style={{ padding: 0, border: "none", background: "none", cursor: "zoom-in" }}>
+              <Thumbnail blob={c.thumbnail} alt={c.title || c.url} />
+            </button>
+            <div style={{ padding: "8px 10px", display: "flex", flexDirection: "column", gap: 3 }}>
+              <div style={{ fontSize: 12.5, fontWeight: 500, whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }} title={c.title}>
+                {c.title || domainOf(c.url) || "Untitled"}
+              </div>
+              <div style={{ fontSize: 11, color: "#7f8a93", whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }} title={c.url}>
+                {domainOf(c.url)} · {MODE_LABELS[c.mode]} · {c.width}×{c.height}
+              </div>
+              <div style={{ fontSize: 11, color: "#7f8a93" }}>{new Date(c.createdAt).toLocaleString()}</div>
+            </div>
+            <div style={{ display: "flex", gap: 6, padding: "0 10px 10px" }}>
+              <button style={actionStyle} onClick={() => recopy(c)}>Copy</button>
+              <button style={actionStyle} onClick={() => download(c)}>Download</button>
+              <button style={actionStyle} onClick={() => remove(c)}>Delete</button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default GalleryPage
@@ -0,0 +1,42 @@
+// Offscreen document, opened by the background for the clipboard and for blob: URLs, neither
+// of which a service worker has. Captures arrive over a transfer port in slices, like the
+// page's, so no single message has to hold a whole image.
+
+import type { ExtensionMessage } from "~lib/messages"
+import { BlobPort, OFFSCREEN_PORT } from "~lib/transfer"
+
+// The clipboard only takes PNG; JPEG/WebP captures are converted first
+async function toPng(blob: Blob): Promise<Blob> {
+  if (blob.type === "image/png") return blob
+  const bitmap = await createImageBitmap(blob)
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0)
+  bitmap.close()
+  return canvas.convertToBlob({ type: "image/png" })
+}
+
+async function copyImage(blob: Blob) {
+  if (!navigator.clipboard?.write) throw new Error("Clipboard API not available in offscreen document")
+  await navigator.clipboard.write([new ClipboardItem({ "image/png": await toPng(blob) })])
+}
+
+const channel = new BlobPort(chrome.runtime.connect({ name: OFFSCREEN_PORT }), async (message, images) => {
+  if (message.action !== "offscreen-copy" && message.action !== "offscreen-object-url") return
+  let reply: ExtensionMessage = { action: "offscreen-result", requestId: message.requestId }
+  try {
+    if (message.action === "offscreen-copy") {
+      await copyImage(images[0])
+    } else {
+      // Lives as long as this document; the background closes it once the download is done
+      reply = { ...reply, url: URL.createObjectURL(images[0]) }
+    }
+  } catch (error) {
+    console.error("Offscreen request failed:", error)
+    reply = { ...reply, error: error.message }
+  }
+  channel.send(reply).catch(() => {})
+})
+
+export default function OffscreenDocument() {
+  return null
+}